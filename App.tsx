@@ -1,19 +1,37 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Upload, Play, Pause, Download, Wand2, Grid, AlertCircle, RefreshCw, Move, EyeOff, CheckSquare, Square, ChevronLeft, ChevronRight, Layers, FlipHorizontal } from 'lucide-react';
-import { FrameConfig, GridDimensions, AppMode } from './types';
-import { generateSpriteSheet } from './services/geminiService';
-import { getGifWorkerUrl } from './utils/gifWorker';
-
-declare global {
-  interface Window {
-    GIF: any;
-  }
-}
-
-interface Dividers {
-  v: number[]; // Vertical dividers (0 to 1)
-  h: number[]; // Horizontal dividers (0 to 1)
+import { Upload, Play, Pause, Download, Wand2, Grid, AlertCircle, RefreshCw, Move, EyeOff, CheckSquare, Square, ChevronLeft, ChevronRight, Layers, FlipHorizontal, ScanSearch, SquareDashed, Trash2, LayoutGrid, AlertTriangle, Film, Plus, X, Clock, Package, Settings2, Archive, Pipette, Eraser, History, Undo2, Redo2, Save, FolderOpen, Crosshair, AlignCenterVertical, Target, Copy, Repeat, ArrowLeftRight, ImagePlus, Images, Keyboard, ZoomIn, ZoomOut, Maximize, Grid3x3, FlipVertical, RotateCw, RotateCcw } from 'lucide-react';
+import { FrameConfig, FrameBox, FrameBoxKind, FrameRotation, GenerationConfig, GenerationRecord, SpriteStyle, ReferenceImage, GridDimensions, Dividers, AnimationClip, AppMode, SlicingMode } from './types';
+import { ProviderId, ProviderSettings } from './services/imageProvider';
+import { PROVIDERS, ProviderPreferences, getProvider, loadProviderPreferences, saveProviderPreferences } from './services/providers';
+import { encodeGifInWorker, GifOptions, DEFAULT_GIF_OPTIONS } from './utils/gifWorker';
+import { Rect, ResizeHandle, HANDLE_CURSORS, getHandlePoints, hitTestHandle, containsPoint, moveRect, resizeRect, clampRect, overlapRatio } from './utils/rect';
+import { CellGridSpec, GridCell, DEFAULT_CELL_GRID, MAX_GRID_DIVISIONS, computeCellGrid, describeCellGridFit } from './utils/grid';
+import { createClip, uniqueClipName, mirroredClipName, resolveClipFrames, getDefaultSequence, getFrameDuration, getSequenceDuration, moveEntries, duplicateEntries, reverseRange, pingPong, applyDefaultOrder } from './utils/clips';
+import { drawFrame, renderFrame, getRenderSize, describeTransform, canvasToBlob } from './utils/frameRender';
+import { AtlasOptions, AtlasEntry, DEFAULT_ATLAS_OPTIONS, packRects, drawAtlas, buildAtlasJson } from './utils/atlas';
+import { buildZip, uniqueFileName, applyNamePattern, ZipFile } from './utils/zip';
+import { encodeApng } from './utils/apng';
+import { encodeAnimatedWebp } from './utils/webp';
+import { ASPECT_RATIOS, STYLE_PRESETS, KEY_COLOR_PRESETS, DEFAULT_GENERATION_CONFIG, MAX_REFERENCE_IMAGES, MAX_VARIANTS, MAX_GALLERY_SIZE, clampFrameCount, closestAspectRatio, createReferenceId, createGenerationId, createBatchId, groupByBatch } from './utils/generation';
+import { loadImage, cropToDataUrl, patchSheet, dataUrlToBlob, blobToDataUrl, createThumbnail } from './utils/sheetPatch';
+import { ChromaKeySettings, DEFAULT_CHROMA_KEY, applyChromaKey, detectKeyColor, rgbToHex } from './utils/chromaKey';
+import { OnionSkinSettings, PreviewGuides, DEFAULT_ONION_SKIN, DEFAULT_PREVIEW_GUIDES, getOnionLayers, renderTintedFrame } from './utils/onionSkin';
+import { ShortcutAction, ShortcutBindings, SHORTCUT_ACTIONS, SELECTION_ACTIONS, DEFAULT_SHORTCUTS, eventToBinding, findShortcut, formatBinding, loadShortcuts, saveShortcuts, rebindShortcut } from './utils/shortcuts';
+import { ViewState, DEFAULT_VIEW, PIXEL_GRID_MIN_ZOOM, screenToImage, zoomAt, nextZoomStep, fitView, centerView } from './utils/viewport';
+import { ProjectFile, PROJECT_EXTENSION, serializeProject, parseProject } from './utils/project';
+import { saveAutosave, loadAutosave, clearAutosave, saveGeneration, loadGenerations, deleteGeneration, clearGenerations } from './utils/projectStore';
+import { HistoryState, createHistory, recordEntry, undoEntry, redoEntry, jumpToEntry } from './utils/history';
+import { BOX_COLORS, getFramePivot, clampPoint, nextBoxName, describeFrameMeta, drawFrameMeta } from './utils/frameMeta';
+import { AlignOptions, DEFAULT_ALIGN_OPTIONS, getContentBounds, computeAlignment, canAlign } from './utils/align';
+import { detectSpriteRects, inferBackground, buildForegroundMask, readImageData, DetectionOptions, DEFAULT_DETECTION_OPTIONS } from './utils/frameDetection';
+
+// A regenerated frame waiting to be accepted into the sheet
+interface FrameRegen {
+    frameId: number;
+    rect: Rect;     // Sheet pixels the result replaces
+    before: string; // Original crop
+    after: string;  // Generated replacement
 }
 
 interface SelectionBox {
@@ -23,25 +41,106 @@ interface SelectionBox {
     currentY: number;
 }
 
-const HIT_TOLERANCE = 12; // Pixels distance to grab a line
+interface FrameDrag {
+    kind: 'move' | 'resize';
+    handle?: ResizeHandle;
+    startX: number;
+    startY: number;
+    origin: Record<number, Rect>; // Frame rects at drag start, keyed by frame id
+}
+
+interface ZipOptions {
+    pattern: string;          // e.g. "{clip}_{index}"; also supports {id}, {row}, {col}
+    includeManifest: boolean; // Adds manifest.json describing every file
+    allClips: boolean;        // Export every clip instead of just the current sequence
+}
+
+const DEFAULT_ZIP_OPTIONS: ZipOptions = {
+    pattern: '{clip}_{index}',
+    includeManifest: true,
+    allClips: false,
+};
+
+type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; ext: string }> = {
+    gif: { label: 'GIF', ext: 'gif' },
+    apng: { label: 'APNG', ext: 'png' },
+    webp: { label: 'WebP', ext: 'webp' },
+};
+
+type EditorTool = 'select' | 'eyedropper' | 'pivot' | FrameBoxKind;
+
+// Pivot being dragged, or a collision box being drawn, inside one frame
+type MetaDrag =
+    | { kind: 'pivot'; frameId: number; targets: number[] }
+    | { kind: 'box'; boxKind: FrameBoxKind; frameId: number; startX: number; startY: number; currentX: number; currentY: number };
+
+// Everything undo / redo restores
+interface EditorSnapshot {
+    image: string | null; // Only changes when a regenerated frame is patched in; shared by reference otherwise
+    frames: FrameConfig[];
+    dividers: Dividers;
+    grid: GridDimensions;
+    clips: AnimationClip[];
+    slicingMode: SlicingMode;
+    cellSpec: CellGridSpec;
+}
+
+const HIT_TOLERANCE = 12; // Screen pixels distance to grab a line
+const HANDLE_SIZE = 8; // Screen pixel size of the resize handles on free-form frames
+const MIN_FRAME_SIZE = 4; // Smallest frame that can be drawn by hand
+const PREVIEW_SIZE = 240; // Target size of the preview stage in screen pixels
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.EDIT);
   const [sourceImage, setSourceImage] = useState<string | null>(null);
+  // What the editor, preview and exporters actually see: the source after background removal
+  const [workingImage, setWorkingImage] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageRevision, setImageRevision] = useState<number>(0); // Bumped whenever imgRef finishes loading
+  const [chromaKey, setChromaKey] = useState<ChromaKeySettings>(DEFAULT_CHROMA_KEY);
+  const [editorTool, setEditorTool] = useState<EditorTool>('select');
+  const [history, setHistory] = useState<HistoryState<EditorSnapshot>>(createHistory);
+  const [slicingMode, setSlicingMode] = useState<SlicingMode>(SlicingMode.GRID);
   const [grid, setGrid] = useState<GridDimensions>({ rows: 3, cols: 3 });
   const [dividers, setDividers] = useState<Dividers>({ v: [0.33, 0.66], h: [0.33, 0.66] });
+  const [cellSpec, setCellSpec] = useState<CellGridSpec>(DEFAULT_CELL_GRID);
+  const [cellGridWarning, setCellGridWarning] = useState<string | null>(null);
+  const [detectOptions, setDetectOptions] = useState<DetectionOptions>(DEFAULT_DETECTION_OPTIONS);
+  const [detectionInfo, setDetectionInfo] = useState<string | null>(null);
+  const [alignOptions, setAlignOptions] = useState<AlignOptions>(DEFAULT_ALIGN_OPTIONS);
   
   const [frames, setFrames] = useState<FrameConfig[]>([]);
   const [selectedFrameIds, setSelectedFrameIds] = useState<number[]>([]); 
   
   const [fps, setFps] = useState<number>(8);
+  const [clips, setClips] = useState<AnimationClip[]>([]);
+  const [activeClipId, setActiveClipId] = useState<string | null>(null); // null = all active frames
   const [isPlaying, setIsPlaying] = useState<boolean>(true);
   const [previewFrameIndex, setPreviewFrameIndex] = useState<number>(0);
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [previewGuides, setPreviewGuides] = useState<PreviewGuides>(DEFAULT_PREVIEW_GUIDES);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
-  const [prompt, setPrompt] = useState<string>('A cute pixel art robot walking');
+  const [generation, setGeneration] = useState<GenerationConfig>(DEFAULT_GENERATION_CONFIG);
+  const [providerPrefs, setProviderPrefs] = useState<ProviderPreferences>(loadProviderPreferences);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]); // Gallery, newest first
+  const [openGenerationId, setOpenGenerationId] = useState<string | null>(null);
+  const [regenInstructions, setRegenInstructions] = useState<string>('');
+  const [isRegenerating, setIsRegenerating] = useState<boolean>(false);
+  const [frameRegen, setFrameRegen] = useState<FrameRegen | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [generationSuccess, setGenerationSuccess] = useState<boolean>(false);
   const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>('gif');
+  const [exportProgress, setExportProgress] = useState<{ label: string; value: number } | null>(null); // value is 0..1
+  const [gifOptions, setGifOptions] = useState<GifOptions>(DEFAULT_GIF_OPTIONS);
+  const [atlasOptions, setAtlasOptions] = useState<AtlasOptions>(DEFAULT_ATLAS_OPTIONS);
+  const [zipOptions, setZipOptions] = useState<ZipOptions>(DEFAULT_ZIP_OPTIONS);
+  const [exportScale, setExportScale] = useState<number>(1); // Integer upscale applied to every export
+  const [restorableProject, setRestorableProject] = useState<ProjectFile | null>(null); // Autosave found on launch
 
   // Interaction State
   const [dragTarget, setDragTarget] = useState<{ type: 'v' | 'h', index: number } | null>(null);
@@ -50,20 +149,123 @@ const App: React.FC = () => {
   // Selection Box State
   const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
   const [isSelecting, setIsSelecting] = useState<boolean>(false);
+  const [isDrawingFrame, setIsDrawingFrame] = useState<boolean>(false);
+
+  // Free-form Frame Editing State
+  const [frameDrag, setFrameDrag] = useState<FrameDrag | null>(null);
+  const [manualHover, setManualHover] = useState<ResizeHandle | 'move' | null>(null);
+  const [metaDrag, setMetaDrag] = useState<MetaDrag | null>(null);
+  const [showFrameMeta, setShowFrameMeta] = useState<boolean>(true); // Pivot and boxes in the preview
+
+  // Editor viewport (zoom / pan)
+  const [view, setView] = useState<ViewState>(DEFAULT_VIEW);
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
+  const [showPixelGrid, setShowPixelGrid] = useState<boolean>(true);
+  const [panDrag, setPanDrag] = useState<{ startX: number; startY: number; origin: ViewState } | null>(null);
+  const [spacePan, setSpacePan] = useState<boolean>(false); // Space is held with the pointer over the canvas
+
+  // Timeline state; entries are positions in activeFrames, since a clip can repeat a frame
+  const [timelineSelection, setTimelineSelection] = useState<number[]>([]);
+  const [timelineDrag, setTimelineDrag] = useState<number[] | null>(null);
+  const [timelineDropIndex, setTimelineDropIndex] = useState<number | null>(null);
+
+  // Keyboard shortcuts
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(loadShortcuts);
+  const [showShortcutHelp, setShowShortcutHelp] = useState<boolean>(false);
+  const [rebindingAction, setRebindingAction] = useState<ShortcutAction | null>(null);
 
   // References
   const imgRef = useRef<HTMLImageElement>(new Image());
+  const rawImageDataRef = useRef<ImageData | null>(null); // Unkeyed source pixels, for the eyedropper
+  const dragHistoryRef = useRef<{ label: string; snapshot: EditorSnapshot } | null>(null);
+  const [rawRevision, setRawRevision] = useState<number>(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const timelineCanvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const pointerOverCanvasRef = useRef<boolean>(false);
+  const fittedImageRef = useRef<{ width: number; height: number } | null>(null);
 
   // Derived State
-  // Sort by sequenceOrder to allow custom ordering
+  const activeClip = clips.find(c => c.id === activeClipId) || null;
+  const provider = getProvider(providerPrefs.active);
+  const providerSettings = providerPrefs.settings[provider.id];
+  const capabilities = provider.capabilities(providerSettings);
+  const aspectRatios = capabilities.aspectRatios ?? ASPECT_RATIOS;
+
+  // The sequence being previewed and exported: the selected clip, or every
+  // active frame sorted by sequenceOrder when no clip is selected
   const activeFrames = useMemo(() => {
-    return frames
-        .filter(f => f.active)
-        .sort((a,b) => a.sequenceOrder - b.sequenceOrder);
-  }, [frames]);
+    return activeClip ? resolveClipFrames(activeClip, frames) : getDefaultSequence(frames);
+  }, [frames, activeClip]);
+
+  const playbackFps = activeClip ? activeClip.fps : fps;
+  const playbackLoop = activeClip ? activeClip.loop : true;
+  const sequenceDuration = getSequenceDuration(activeFrames, playbackFps);
+
+  // First selected frame; its pivot and boxes are shown for editing
+  const focusFrame = selectedFrameIds.length > 0 ? frames.find(f => f.id === selectedFrameIds[0]) : undefined;
+  const focusPivot = focusFrame ? getFramePivot(focusFrame) : null;
+
+  // Shared duration of the selected frames, or undefined when unset / mixed
+  const selectedDuration = useMemo(() => {
+    const durations = frames.filter(f => selectedFrameIds.includes(f.id)).map(f => f.duration);
+    return durations.length > 0 && durations.every(d => d === durations[0]) ? durations[0] : undefined;
+  }, [frames, selectedFrameIds]);
+
+  // --- Undo / Redo ---
+
+  const captureSnapshot = (): EditorSnapshot => ({ image: sourceImage, frames, dividers, grid, clips, slicingMode, cellSpec });
+
+  // Call before mutating; a shared coalesceKey folds rapid repeats (drags, nudges) into one entry
+  const recordHistory = (label: string, coalesceKey?: string) => {
+      setHistory(prev => recordEntry(prev, captureSnapshot(), label, coalesceKey));
+  };
+
+  // Drags snapshot on mouse down but only become an entry if something actually moved
+  const beginDragHistory = (label: string) => {
+      dragHistoryRef.current = { label, snapshot: captureSnapshot() };
+  };
+
+  const commitDragHistory = () => {
+      const pending = dragHistoryRef.current;
+      dragHistoryRef.current = null;
+      if (!pending) return;
+      if (pending.snapshot.frames === frames && pending.snapshot.dividers === dividers) return;
+      setHistory(prev => recordEntry(prev, pending.snapshot, pending.label));
+  };
+
+  const restoreSnapshot = (snapshot: EditorSnapshot) => {
+      setSourceImage(snapshot.image);
+      setFrames(snapshot.frames);
+      setDividers(snapshot.dividers);
+      setGrid(snapshot.grid);
+      setClips(snapshot.clips);
+      setSlicingMode(snapshot.slicingMode);
+      setCellSpec(snapshot.cellSpec);
+      setSelectedFrameIds([]);
+  };
+
+  const undo = () => {
+      const step = undoEntry(history, captureSnapshot());
+      if (!step) return;
+      setHistory(step.history);
+      restoreSnapshot(step.snapshot);
+  };
+
+  const redo = () => {
+      const step = redoEntry(history, captureSnapshot());
+      if (!step) return;
+      setHistory(step.history);
+      restoreSnapshot(step.snapshot);
+  };
+
+  const jumpToHistory = (pastLength: number) => {
+      const step = jumpToEntry(history, captureSnapshot(), pastLength);
+      setHistory(step.history);
+      restoreSnapshot(step.snapshot);
+  };
 
   // --- Initialization & Grid Logic ---
 
@@ -73,79 +275,270 @@ const App: React.FC = () => {
      setDividers({ v, h });
   };
 
+  // Decode the raw source once so background removal and the eyedropper can read its pixels
+  useEffect(() => {
+    rawImageDataRef.current = null;
+    if (!sourceImage) return;
+    const raw = new Image();
+    raw.onload = () => {
+      rawImageDataRef.current = readImageData(raw);
+      setRawRevision(r => r + 1);
+    };
+    raw.src = sourceImage;
+  }, [sourceImage]);
+
+  // Background removal stage; debounced since sliders fire on every step
+  useEffect(() => {
+    if (!sourceImage || !chromaKey.enabled || chromaKey.colors.length === 0) {
+      setWorkingImage(sourceImage);
+      return;
+    }
+    const raw = rawImageDataRef.current;
+    if (!raw) return;
+
+    const timeout = setTimeout(() => {
+      const keyed = applyChromaKey(raw, chromaKey);
+      const canvas = document.createElement('canvas');
+      canvas.width = keyed.width;
+      canvas.height = keyed.height;
+      canvas.getContext('2d')?.putImageData(keyed, 0, 0);
+      setWorkingImage(canvas.toDataURL('image/png'));
+    }, 120);
+    return () => clearTimeout(timeout);
+  }, [sourceImage, chromaKey, rawRevision]);
+
   useEffect(() => {
-    if (sourceImage) {
+    if (workingImage) {
       const img = imgRef.current;
-      img.src = sourceImage;
+      img.src = workingImage;
       img.onload = () => {
-        calculateFrames();
+        // Only a change in size needs new frames; re-keying just needs a redraw
+        setImageSize(prev => prev && prev.width === img.width && prev.height === img.height ? prev : { width: img.width, height: img.height });
+        setImageRevision(r => r + 1);
       };
     }
-  }, [sourceImage]);
+  }, [workingImage]);
 
   useEffect(() => {
       calculateFrames();
-  }, [dividers, sourceImage]);
+  }, [dividers, sourceImage, imageSize, slicingMode, cellSpec]);
 
   const calculateFrames = () => {
+    // Auto-detected and hand-drawn frames are not derived from any grid
+    if (slicingMode !== SlicingMode.GRID && slicingMode !== SlicingMode.CELL) return;
     if (!imgRef.current.complete || !imgRef.current.src) return;
     
     const imgWidth = imgRef.current.width;
     const imgHeight = imgRef.current.height;
 
-    // Construct full list of split points including 0 and 1
-    const xPoints = [0, ...dividers.v, 1].map(p => p * imgWidth);
-    const yPoints = [0, ...dividers.h, 1].map(p => p * imgHeight);
+    const cells: GridCell[] = [];
+    if (slicingMode === SlicingMode.CELL) {
+        // Fixed cell size: gutters and margins are left out of the frames
+        const layout = computeCellGrid(cellSpec, imgWidth, imgHeight);
+        cells.push(...layout.cells);
+        setCellGridWarning(describeCellGridFit(layout, imgWidth, imgHeight));
+    } else {
+        // Construct full list of split points including 0 and 1
+        const xPoints = [0, ...dividers.v, 1].map(p => p * imgWidth);
+        const yPoints = [0, ...dividers.h, 1].map(p => p * imgHeight);
 
-    setFrames(prev => {
-        const newFrames: FrameConfig[] = [];
-        let idCounter = 0;
-        
         for (let r = 0; r < yPoints.length - 1; r++) {
             for (let c = 0; c < xPoints.length - 1; c++) {
-                const x = xPoints[c];
-                const y = yPoints[r];
-                const width = xPoints[c+1] - x;
-                const height = yPoints[r+1] - y;
-                
-                // Try to find existing frame to preserve offsets, active state, and sequence
-                // We map loosely based on spatial proximity or row/col index
-                const existing = prev.find(p => p.row === r && p.col === c);
-                
-                newFrames.push({
-                    id: idCounter,
+                cells.push({
                     row: r,
                     col: c,
-                    x,
-                    y,
-                    width,
-                    height,
-                    offsetX: existing ? existing.offsetX : 0,
-                    offsetY: existing ? existing.offsetY : 0,
-                    active: existing ? existing.active : true,
-                    flipH: existing ? existing.flipH : false,
-                    sequenceOrder: existing ? existing.sequenceOrder : idCounter,
+                    x: xPoints[c],
+                    y: yPoints[r],
+                    width: xPoints[c+1] - xPoints[c],
+                    height: yPoints[r+1] - yPoints[r],
                 });
-                idCounter++;
             }
         }
-        return newFrames;
+    }
+
+    setFrames(prev => {
+      // Existing frames are matched by row/col to preserve their id (clips refer to it), offsets,
+      // active state, and sequence; new cells get ids that were never used before
+      const byCell = new Map<string, FrameConfig>(prev.map(p => [`${p.row},${p.col}`, p]));
+      let nextId = prev.reduce((max, f) => Math.max(max, f.id), -1) + 1;
+      return cells.map((cell, idCounter) => {
+        const existing = byCell.get(`${cell.row},${cell.col}`);
+
+        return {
+            id: existing ? existing.id : nextId++,
+            ...cell,
+            offsetX: existing ? existing.offsetX : 0,
+            offsetY: existing ? existing.offsetY : 0,
+            active: existing ? existing.active : true,
+            flipH: existing ? existing.flipH : false,
+            flipV: existing ? existing.flipV : undefined,
+            rotation: existing ? existing.rotation : undefined,
+            scale: existing ? existing.scale : undefined,
+            sequenceOrder: existing ? existing.sequenceOrder : idCounter,
+            duration: existing ? existing.duration : undefined,
+            pivot: existing ? existing.pivot : undefined,
+            boxes: existing ? existing.boxes : undefined,
+        };
+      });
     });
-    // Clear selection on re-calc to avoid ghost IDs
-    setSelectedFrameIds([]);
+    // Frame ids are stable, so only drop selected ids whose cell is gone
+    const ids = new Set(cells.map(cell => `${cell.row},${cell.col}`));
+    setSelectedFrameIds(prev => prev.filter(id => {
+        const frame = frames.find(f => f.id === id);
+        return !!frame && ids.has(`${frame.row},${frame.col}`);
+    }));
   };
 
   const handleGridCountChange = (type: 'rows' | 'cols', val: number) => {
-      const newVal = Math.max(1, Math.min(20, val));
+      recordHistory(`Set ${type}`);
+      const newVal = Math.max(1, Math.min(MAX_GRID_DIVISIONS, val));
       const newGrid = { ...grid, [type]: newVal };
       setGrid(newGrid);
       resetDividers(newGrid.rows, newGrid.cols);
   };
 
+  const handleSlicingModeChange = (next: SlicingMode) => {
+      if (next === slicingMode) return;
+      recordHistory('Change slicing mode');
+      // Carry the fixed-cell layout over as a starting point for the draggable grid
+      if (slicingMode === SlicingMode.CELL && next === SlicingMode.GRID && imgRef.current.complete && imgRef.current.src) {
+          const layout = computeCellGrid(cellSpec, imgRef.current.width, imgRef.current.height);
+          if (layout.cells.length > 0) {
+              setGrid({ rows: layout.rows, cols: layout.cols });
+              setDividers(layout.dividers);
+          }
+      }
+      setSlicingMode(next);
+  };
+
+  const updateCellSpec = (key: keyof CellGridSpec, value: number) => {
+      if (!Number.isFinite(value)) return; // Field cleared while typing
+      const min = key === 'cellWidth' || key === 'cellHeight' ? 1 : 0;
+      recordHistory('Edit cell size', `cell-${key}`);
+      setCellSpec(prev => ({ ...prev, [key]: Math.max(min, value) }));
+  };
+
+  // --- Background Removal ---
+
+  const updateChromaKey = (patch: Partial<ChromaKeySettings>) => {
+      setChromaKey(prev => ({ ...prev, ...patch }));
+  };
+
+  // Samples the unkeyed source; Shift adds another key color instead of replacing
+  const pickKeyColor = (x: number, y: number, add: boolean) => {
+      const raw = rawImageDataRef.current;
+      if (!raw) return;
+      const px = Math.max(0, Math.min(raw.width - 1, Math.floor(x)));
+      const py = Math.max(0, Math.min(raw.height - 1, Math.floor(y)));
+      const i = (py * raw.width + px) * 4;
+      const color = rgbToHex(raw.data[i], raw.data[i + 1], raw.data[i + 2]);
+      setChromaKey(prev => ({
+          ...prev,
+          enabled: true,
+          colors: add ? [...prev.colors.filter(c => c !== color), color] : [color],
+      }));
+      if (!add) setEditorTool('select');
+  };
+
+  const autoDetectKeyColor = () => {
+      const raw = rawImageDataRef.current;
+      if (!raw) return;
+      updateChromaKey({ enabled: true, colors: [detectKeyColor(raw)] });
+  };
+
+  // --- Auto Detection ---
+
+  const handleAutoDetect = () => {
+      if (!imgRef.current.complete || !imgRef.current.src) return;
+      recordHistory('Auto-detect frames');
+      setSlicingMode(SlicingMode.AUTO);
+
+      try {
+          const imageData = readImageData(imgRef.current);
+          const background = inferBackground(imageData, detectOptions.alphaThreshold);
+          const rects = detectSpriteRects(imageData, detectOptions, background);
+
+          // A sprite found again in (roughly) the same place keeps its frame and its edits
+          // (offsets, flips, timing, pivot, boxes), so clips still point at it
+          const unmatched = [...frames];
+          let nextId = frames.reduce((max, f) => Math.max(max, f.id), -1) + 1;
+          const matches = rects.map(rect => {
+              let best = -1;
+              unmatched.forEach((frame, i) => {
+                  if (overlapRatio(frame, rect) >= 0.5 && (best === -1 || overlapRatio(frame, rect) > overlapRatio(unmatched[best], rect))) best = i;
+              });
+              return best === -1 ? null : unmatched.splice(best, 1)[0];
+          });
+
+          setFrames(rects.map((rect, index) => {
+              const placement = {
+                  row: rect.row,
+                  col: rect.col,
+                  x: rect.x,
+                  y: rect.y,
+                  width: rect.width,
+                  height: rect.height,
+                  sequenceOrder: index,
+              };
+              const prev = matches[index];
+              if (prev) return { ...prev, ...placement };
+              return {
+                  id: nextId++,
+                  ...placement,
+                  offsetX: 0,
+                  offsetY: 0,
+                  active: true,
+                  flipH: false,
+              };
+          }));
+          setSelectedFrameIds([]);
+
+          const bgLabel = background.kind === 'alpha'
+              ? 'transparent'
+              : '#' + [background.r, background.g, background.b].map(v => v.toString(16).padStart(2, '0')).join('');
+          setDetectionInfo(`${rects.length} sprite${rects.length === 1 ? '' : 's'} found on ${bgLabel} background`);
+      } catch (e) {
+          console.error(e);
+          setDetectionInfo('Detection failed. See console for details.');
+      }
+  };
+
+  const updateDetectOption = (key: keyof DetectionOptions, value: number) => {
+      setDetectOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  // --- Manual (Free-form) Frames ---
+
+  const addManualFrame = (rect: Rect) => {
+      const nextId = frames.reduce((max, f) => Math.max(max, f.id), -1) + 1;
+      const nextOrder = frames.reduce((max, f) => Math.max(max, f.sequenceOrder), -1) + 1;
+      recordHistory('Draw frame');
+      setFrames(prev => [...prev, {
+          id: nextId,
+          row: -1, // Hand-drawn frames don't belong to any grid cell
+          col: -1,
+          ...rect,
+          offsetX: 0,
+          offsetY: 0,
+          active: true,
+          flipH: false,
+          sequenceOrder: nextOrder,
+      }]);
+      setSelectedFrameIds([nextId]);
+  };
+
+  const deleteSelectedFrames = () => {
+      if (selectedFrameIds.length === 0) return;
+      recordHistory('Delete frames');
+      setFrames(prev => prev.filter(f => !selectedFrameIds.includes(f.id)));
+      setSelectedFrameIds([]);
+  };
+
   // --- Batch Operations ---
 
   const updateFrameOffset = (axis: 'x' | 'y', delta: number) => {
       if (selectedFrameIds.length === 0) return;
+      recordHistory('Nudge offset', `offset-${selectedFrameIds.join(',')}`);
       setFrames(prev => prev.map(f => {
           if (selectedFrameIds.includes(f.id)) {
               return { 
@@ -157,11 +550,58 @@ const App: React.FC = () => {
       }));
   };
 
-  const toggleFrameFlip = () => {
+  // Measures each selected frame's opaque content and snaps it to the chosen anchor
+  const autoAlignSelected = () => {
+      if (selectedFrameIds.length === 0 || !imgRef.current.complete || !imgRef.current.src) return;
+      const image = readImageData(imgRef.current);
+      const mask = buildForegroundMask(image, inferBackground(image, detectOptions.alphaThreshold), detectOptions);
+      const targets = frames.filter(f => selectedFrameIds.includes(f.id));
+      const bounds = new Map<number, Rect>();
+      targets.forEach(f => {
+          const box = getContentBounds(mask, image.width, image.height, f);
+          if (box) bounds.set(f.id, box);
+      });
+      const offsets = computeAlignment(targets, bounds, alignOptions);
+      const skipped = targets.filter(f => !canAlign(f)).length;
+      if (offsets.size > 0) {
+          recordHistory('Auto-align');
+          setFrames(prev => prev.map(f => offsets.has(f.id) ? { ...f, ...offsets.get(f.id)! } : f));
+      }
+      if (skipped > 0) alert(`${skipped} frame${skipped === 1 ? ' is' : 's are'} rotated by 90° and ${skipped === 1 ? 'was' : 'were'} not aligned.`);
+  };
+
+  const toggleFrameFlip = (axis: 'h' | 'v' = 'h') => {
+      if (selectedFrameIds.length === 0) return;
+      recordHistory('Flip frames');
+      setFrames(prev => prev.map(f => {
+          if (selectedFrameIds.includes(f.id)) {
+              return axis === 'h' ? { ...f, flipH: !f.flipH } : { ...f, flipV: !f.flipV };
+          }
+          return f;
+      }));
+  };
+
+  const rotateFrames = (direction: 1 | -1) => {
       if (selectedFrameIds.length === 0) return;
+      recordHistory('Rotate frames');
+      setFrames(prev => prev.map(f => selectedFrameIds.includes(f.id)
+          ? { ...f, rotation: ((((f.rotation || 0) + direction * 90) % 360 + 360) % 360) as FrameRotation }
+          : f));
+  };
+
+  const setFrameScale = (scale: number) => {
+      if (selectedFrameIds.length === 0) return;
+      recordHistory('Scale frames');
+      setFrames(prev => prev.map(f => selectedFrameIds.includes(f.id) ? { ...f, scale: scale > 1 ? scale : undefined } : f));
+  };
+
+  // Undefined clears the override so the frame follows the sequence fps again
+  const setFrameDuration = (duration: number | undefined) => {
+      if (selectedFrameIds.length === 0) return;
+      recordHistory('Set duration', `duration-${selectedFrameIds.join(',')}`);
       setFrames(prev => prev.map(f => {
           if (selectedFrameIds.includes(f.id)) {
-              return { ...f, flipH: !f.flipH };
+              return { ...f, duration };
           }
           return f;
       }));
@@ -169,6 +609,7 @@ const App: React.FC = () => {
 
   const setBatchActive = (active: boolean) => {
       if (selectedFrameIds.length === 0) return;
+      recordHistory(active ? 'Mark active' : 'Mark skipped');
       setFrames(prev => prev.map(f => {
           if (selectedFrameIds.includes(f.id)) {
               return { ...f, active };
@@ -177,11 +618,77 @@ const App: React.FC = () => {
       }));
   };
 
+  // --- Pivot & Collision Boxes ---
+
+  // Puts the pivot at the same frame-local point in every target frame
+  const applyPivot = (targets: number[], localX: number, localY: number) => {
+      setFrames(prev => prev.map(f => targets.includes(f.id) ? { ...f, pivot: clampPoint(f, localX, localY) } : f));
+  };
+
+  const setSelectedPivot = (axis: 'x' | 'y', value: number) => {
+      if (selectedFrameIds.length === 0) return;
+      recordHistory('Set pivot', `pivot-${selectedFrameIds.join(',')}`);
+      setFrames(prev => prev.map(f => {
+          if (!selectedFrameIds.includes(f.id)) return f;
+          const pivot = getFramePivot(f);
+          return { ...f, pivot: clampPoint(f, axis === 'x' ? value : pivot.x, axis === 'y' ? value : pivot.y) };
+      }));
+  };
+
+  const resetSelectedPivot = () => {
+      recordHistory('Reset pivot');
+      setFrames(prev => prev.map(f => selectedFrameIds.includes(f.id) ? { ...f, pivot: undefined } : f));
+  };
+
+  const addFrameBox = (frameId: number, kind: FrameBoxKind, rect: Rect) => {
+      recordHistory(`Add ${kind}`);
+      setFrames(prev => prev.map(f => f.id === frameId
+          ? { ...f, boxes: [...(f.boxes || []), { name: nextBoxName(f, kind), kind, ...rect }] }
+          : f));
+  };
+
+  const updateFrameBox = (frameId: number, index: number, patch: Partial<FrameBox>) => {
+      recordHistory('Edit box', `box-${frameId}-${index}`);
+      setFrames(prev => prev.map(f => f.id === frameId && f.boxes
+          ? { ...f, boxes: f.boxes.map((b, i) => i === index ? { ...b, ...patch } : b) }
+          : f));
+  };
+
+  const deleteFrameBox = (frameId: number, index: number) => {
+      recordHistory('Delete box');
+      setFrames(prev => prev.map(f => f.id === frameId && f.boxes
+          ? { ...f, boxes: f.boxes.filter((_, i) => i !== index) }
+          : f));
+  };
+
+  // Copies the first selected frame's boxes onto the rest of the selection
+  const copyBoxesToSelection = () => {
+      const source = frames.find(f => f.id === selectedFrameIds[0]);
+      if (!source || selectedFrameIds.length < 2) return;
+      recordHistory('Copy boxes');
+      setFrames(prev => prev.map(f => selectedFrameIds.includes(f.id) && f.id !== source.id
+          ? { ...f, boxes: (source.boxes || []).map(b => ({ ...b })) }
+          : f));
+  };
+
   // --- Sequence Reordering ---
 
   const moveFrameInSequence = (direction: -1 | 1) => {
       if (selectedFrameIds.length !== 1) return; // Only allow single frame reorder for simplicity
       const selectedId = selectedFrameIds[0];
+
+      if (activeClip) {
+          // Clips keep their own order; move the first occurrence of the frame
+          const index = activeClip.frameIds.indexOf(selectedId);
+          const swapIndex = index + direction;
+          if (index === -1 || swapIndex < 0 || swapIndex >= activeClip.frameIds.length) return;
+          const frameIds = [...activeClip.frameIds];
+          [frameIds[index], frameIds[swapIndex]] = [frameIds[swapIndex], frameIds[index]];
+          recordHistory('Reorder clip');
+          updateClip(activeClip.id, { frameIds });
+          return;
+      }
+
       const frame = frames.find(f => f.id === selectedId);
       if (!frame || !frame.active) return;
 
@@ -199,6 +706,7 @@ const App: React.FC = () => {
       // Swap their sequenceOrder values
       const newOrderA = targetFrame.sequenceOrder;
       const newOrderB = frame.sequenceOrder;
+      recordHistory('Reorder sequence');
 
       setFrames(prev => prev.map(f => {
           if (f.id === frame.id) return { ...f, sequenceOrder: newOrderA };
@@ -207,6 +715,76 @@ const App: React.FC = () => {
       }));
   };
 
+  // --- Animation Clips ---
+
+  const updateClip = (id: string, patch: Partial<AnimationClip>) => {
+      setClips(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const selectClip = (id: string | null) => {
+      setActiveClipId(id);
+      setPreviewFrameIndex(0);
+  };
+
+  // New clip from the selected frames (in sequence order), or from the whole
+  // current sequence when nothing is selected
+  const createClipFromSelection = () => {
+      const selected = selectedFrameIds.length > 0
+          ? frames.filter(f => selectedFrameIds.includes(f.id)).sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+          : activeFrames;
+      if (selected.length === 0) return;
+      const clip = createClip(uniqueClipName('clip', clips), selected.map(f => f.id), playbackFps);
+      recordHistory('New clip');
+      setClips(prev => [...prev, clip]);
+      selectClip(clip.id);
+  };
+
+  // Appends the selected frames to the current clip; frames may repeat
+  const appendSelectionToClip = () => {
+      if (!activeClip || selectedFrameIds.length === 0) return;
+      const selected = frames
+          .filter(f => selectedFrameIds.includes(f.id))
+          .sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+          .map(f => f.id);
+      recordHistory('Add frames to clip');
+      updateClip(activeClip.id, { frameIds: [...activeClip.frameIds, ...selected] });
+  };
+
+  const removeClipEntry = (index: number) => {
+      if (!activeClip) return;
+      recordHistory('Remove frame from clip');
+      updateClip(activeClip.id, { frameIds: activeClip.frameIds.filter((_, i) => i !== index) });
+  };
+
+  const deleteClip = (id: string) => {
+      recordHistory('Delete clip');
+      setClips(prev => prev.filter(c => c.id !== id));
+      if (activeClipId === id) selectClip(null);
+  };
+
+  // Derives the opposite facing direction from the current sequence. The new clip shares
+  // its frames with the source, so later edits to those frames show up in both directions.
+  const mirrorSequence = () => {
+      if (activeFrames.length === 0) return;
+      const clip: AnimationClip = {
+          ...createClip(mirroredClipName(activeClip ? activeClip.name : 'clip', clips), activeFrames.map(f => f.id), playbackFps),
+          loop: playbackLoop,
+          mirrored: !activeClip?.mirrored,
+      };
+      recordHistory('Mirror clip');
+      setClips(prev => [...prev, clip]);
+      selectClip(clip.id);
+  };
+
+  const handleFpsChange = (value: number) => {
+      if (activeClip) {
+          recordHistory('Edit clip', `clip-fps-${activeClip.id}`);
+          updateClip(activeClip.id, { fps: value });
+      } else {
+          setFps(value);
+      }
+  };
+
   // --- File & GenAI ---
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -217,7 +795,12 @@ const App: React.FC = () => {
         setSourceImage(ev.target?.result as string);
         setMode(AppMode.EDIT);
         setGenerationSuccess(false);
-        // Reset to default grid on new file
+        setFrameRegen(null);
+        setOpenGenerationId(null);
+        // Reset to default grid on new file; old history refers to the previous sheet
+        setHistory(createHistory());
+        setSlicingMode(SlicingMode.GRID);
+        setDetectionInfo(null);
         setGrid({rows: 3, cols: 3});
         resetDividers(3, 3);
       };
@@ -225,17 +808,120 @@ const App: React.FC = () => {
     }
   };
 
+  const updateGeneration = (patch: Partial<GenerationConfig>) => {
+      setGeneration(prev => {
+          const next = { ...prev, ...patch };
+          // Changing the layout to fewer cells shrinks the frame count; more cells fill it up
+          const layoutChanged = next.rows !== prev.rows || next.cols !== prev.cols;
+          const wasFull = prev.frameCount >= prev.rows * prev.cols;
+          return { ...next, frameCount: layoutChanged && wasFull ? next.rows * next.cols : clampFrameCount(next) };
+      });
+  };
+
+  const updateProviderPrefs = (next: ProviderPreferences) => {
+      setProviderPrefs(next);
+      saveProviderPreferences(next);
+  };
+
+  // Keeps the requested ratio if the provider (with these settings) supports it, otherwise picks the nearest one
+  const fitRatio = (id: ProviderId, settings: ProviderSettings) => {
+      const ratios = getProvider(id).capabilities(settings).aspectRatios;
+      if (ratios && !ratios.includes(generation.ratio)) {
+          const [w, h] = generation.ratio.split(':').map(Number);
+          updateGeneration({ ratio: closestAspectRatio(w, h, ratios) });
+      }
+  };
+
+  const selectProvider = (id: ProviderId) => {
+      updateProviderPrefs({ ...providerPrefs, active: id });
+      fitRatio(id, providerPrefs.settings[id]);
+  };
+
+  const updateProviderSetting = (key: string, value: string) => {
+      const settings = { ...providerSettings, [key]: value };
+      updateProviderPrefs({ ...providerPrefs, settings: { ...providerPrefs.settings, [provider.id]: settings } });
+      fitRatio(provider.id, settings);
+  };
+
+  const addReferences = (added: ReferenceImage[]) => {
+      setReferences(prev => [...prev, ...added].slice(0, MAX_REFERENCE_IMAGES));
+  };
+
+  const handleReferenceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files ? Array.from<File>(e.target.files) : [];
+      e.target.value = '';
+      files.forEach(file => {
+          const reader = new FileReader();
+          reader.onload = (ev) => addReferences([{ id: createReferenceId(), name: file.name, dataUrl: ev.target?.result as string }]);
+          reader.readAsDataURL(file);
+      });
+  };
+
+  // Uses the selected frame as it would be exported (offset, flips applied)
+  const addFrameReference = () => {
+      if (!focusFrame || !imgRef.current?.complete) return;
+      addReferences([{
+          id: createReferenceId(),
+          name: `frame #${focusFrame.id}`,
+          dataUrl: renderFrame(imgRef.current, focusFrame).toDataURL('image/png'),
+      }]);
+  };
+
+  // Loads a generated sheet into the editor, sliced with the layout it was asked for
+  // and keyed on the requested backdrop. Its prompt and settings come back too.
+  const openGeneration = async (record: GenerationRecord, image?: string) => {
+      const { config } = record;
+      setSourceImage(image ?? await blobToDataUrl(record.image));
+      setGeneration(config);
+      setOpenGenerationId(record.id);
+      setHistory(createHistory());
+      setSlicingMode(SlicingMode.GRID);
+      setDetectionInfo(null);
+      setGrid({ rows: config.rows, cols: config.cols });
+      resetDividers(config.rows, config.cols);
+      setChromaKey(prev => ({ ...prev, colors: [config.background] }));
+      setMode(AppMode.EDIT);
+      setGenerationSuccess(true);
+      setFrameRegen(null);
+  };
+
+  // Variants are requested in parallel; every sheet that comes back goes into the
+  // gallery and the first one is opened
   const handleGenerate = async () => {
-    if (!prompt) return;
+    if (!generation.prompt.trim()) return;
     setIsGenerating(true);
     setErrorMsg(null);
     try {
-      const base64Image = await generateSpriteSheet(prompt);
-      setSourceImage(base64Image);
-      setGrid({ rows: 3, cols: 3 }); 
-      resetDividers(3, 3);
-      setMode(AppMode.EDIT);
-      setGenerationSuccess(true);
+      const config = { ...generation, frameCount: clampFrameCount(generation) };
+      const attached = capabilities.references ? references : [];
+      const batchId = createBatchId();
+      const results = await Promise.allSettled(
+          Array.from({ length: variantCount }, (_, variant) => provider.generate(config, attached, providerSettings, variant))
+      );
+      const images = results
+          .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+          .map(r => r.value);
+      const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (images.length === 0) throw failed[0].reason;
+
+      const records: GenerationRecord[] = await Promise.all(images.map(async image => ({
+          id: createGenerationId(),
+          batchId,
+          createdAt: Date.now(),
+          config,
+          referenceCount: attached.length,
+          provider: provider.label,
+          image: await dataUrlToBlob(image),
+          thumbnail: await createThumbnail(image),
+      })));
+
+      // The gallery keeps the newest MAX_GALLERY_SIZE sheets
+      const gallery = [...records, ...generations];
+      setGenerations(gallery.slice(0, MAX_GALLERY_SIZE));
+      gallery.slice(MAX_GALLERY_SIZE).forEach(old => deleteGeneration(old.id).catch(err => console.warn('Could not delete generation', err)));
+      persistGenerations(records);
+      await openGeneration(records[0], images[0]);
+      if (failed.length > 0) setErrorMsg(`${failed.length} of ${results.length} variants failed to generate.`);
     } catch (err: any) {
       setErrorMsg("Failed to generate: " + (err.message || "Unknown error"));
     } finally {
@@ -243,220 +929,668 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Export ---
-  const handleExportGif = async () => {
-    if (activeFrames.length === 0 || !imgRef.current?.complete) {
-      alert('No active frames to export!');
-      return;
-    }
+  // A sheet that can't be written (usually because browser storage is full) is taken
+  // out of the gallery again, so the gallery only shows what will survive a reload
+  const persistGenerations = async (records: GenerationRecord[]) => {
+      const failed: string[] = [];
+      for (const record of records) {
+          try {
+              await saveGeneration(record);
+          } catch (err) {
+              console.warn('Could not save generation', err);
+              failed.push(record.id);
+          }
+      }
+      if (failed.length === 0) return;
+      setGenerations(prev => prev.filter(g => !failed.includes(g.id)));
+      setErrorMsg(`Couldn't save ${failed.length === 1 ? 'a sheet' : `${failed.length} sheets`} to the gallery; browser storage may be full. Delete older sheets to make room.`);
+  };
 
-    setIsExporting(true);
+  const removeGeneration = (id: string) => {
+      setGenerations(prev => prev.filter(g => g.id !== id));
+      if (openGenerationId === id) setOpenGenerationId(null);
+      deleteGeneration(id).catch(err => console.warn('Could not delete generation', err));
+  };
 
-    try {
-        const workerUrl = await getGifWorkerUrl();
-
-        const gif = new window.GIF({
-            workers: 2,
-            quality: 10,
-            width: activeFrames[0].width, // Assume roughly equal sizes, or use max
-            height: activeFrames[0].height,
-            workerScript: workerUrl
-        });
+  const clearGallery = () => {
+      if (!confirm('Delete every generated sheet from the gallery?')) return;
+      setGenerations([]);
+      setOpenGenerationId(null);
+      clearGenerations().catch(err => console.warn('Could not clear generations', err));
+  };
 
-        const tempCanvas = document.createElement('canvas');
-        const tempCtx = tempCanvas.getContext('2d');
-        if (!tempCtx) throw new Error('Could not create canvas context');
+  useEffect(() => {
+      loadGenerations()
+        .then(setGenerations)
+        .catch(err => console.warn('Generation gallery unavailable', err));
+  }, []);
+
+  // --- Frame Regeneration ---
+
+  // Sends the focused frame and its neighbours in the current sequence to the model.
+  // The crops come from the unkeyed sheet so the result matches its background.
+  const handleRegenerateFrame = async () => {
+    if (!focusFrame || !sourceImage || !capabilities.edit) return;
+    setIsRegenerating(true);
+    setErrorMsg(null);
+    try {
+      const sheet = await loadImage(sourceImage);
+      const crop = (frame: FrameConfig) => cropToDataUrl(sheet, clampRect(frame, sheet));
+      const index = activeFrames.findIndex(f => f.id === focusFrame.id);
+      const neighbours = index === -1 ? [] : [activeFrames[index - 1], activeFrames[index + 1]]
+          .filter((f): f is FrameConfig => !!f && f.id !== focusFrame.id);
+
+      const rect = clampRect(focusFrame, sheet);
+      const before = crop(focusFrame);
+      const after = await provider.edit({
+          frame: before,
+          neighbours: neighbours.map(crop),
+          prompt: generation.prompt,
+          instructions: regenInstructions,
+          style: generation.style,
+          background: generation.background,
+          ratio: closestAspectRatio(rect.width, rect.height, aspectRatios),
+      }, providerSettings);
+      setFrameRegen({ frameId: focusFrame.id, rect, before, after });
+    } catch (err: any) {
+      setErrorMsg("Failed to regenerate frame: " + (err.message || "Unknown error"));
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
 
-        // Render each frame to the GIF
-        activeFrames.forEach((frame) => {
-            // Resize temp canvas to match frame size (GIF.js handles varying sizes, 
-            // but ideally frames should be uniform for a good sprite animation)
-            tempCanvas.width = frame.width;
-            tempCanvas.height = frame.height;
+  const acceptFrameRegen = async () => {
+    if (!frameRegen || !sourceImage) return;
+    try {
+      const [sheet, patch] = await Promise.all([loadImage(sourceImage), loadImage(frameRegen.after)]);
+      const patched = patchSheet(sheet, patch, frameRegen.rect, generation.style !== 'pixel');
+      recordHistory('Regenerate frame');
+      setSourceImage(patched);
+      setFrameRegen(null);
+
+      // Keep the gallery copy of the open sheet in step with the editor
+      const record = generations.find(g => g.id === openGenerationId);
+      if (record) {
+          const updated = { ...record, image: await dataUrlToBlob(patched), thumbnail: await createThumbnail(patched) };
+          setGenerations(prev => prev.map(g => g.id === updated.id ? updated : g));
+          persistGenerations([updated]);
+      }
+    } catch (err: any) {
+      setErrorMsg("Failed to apply frame: " + (err.message || "Unknown error"));
+    }
+  };
 
-            tempCtx.clearRect(0, 0, frame.width, frame.height);
-            
-            tempCtx.save();
-            if (frame.flipH) {
-                // Flip coordinate system horizontally around the center or start?
-                // Scale -1, 1 flips around x=0. So we need to translate first.
-                // Move to right edge, then flip
-                tempCtx.translate(frame.width, 0);
-                tempCtx.scale(-1, 1);
-            }
+  // --- Project Files ---
 
-            tempCtx.drawImage(
-                imgRef.current,
-                frame.x, frame.y, frame.width, frame.height,
-                frame.offsetX, frame.offsetY, frame.width, frame.height
-            );
-            
-            tempCtx.restore();
-            
-            gif.addFrame(tempCanvas, { delay: 1000 / fps, copy: true });
-        });
+  const applyProject = (project: ProjectFile) => {
+      setSourceImage(project.image);
+      setMode(AppMode.EDIT);
+      setGenerationSuccess(false);
+      setFrameRegen(null);
+      setOpenGenerationId(null);
+      setHistory(createHistory());
+      setDetectionInfo(null);
+      setSlicingMode(project.slicingMode);
+      setGrid(project.grid);
+      setDividers(project.dividers);
+      setCellSpec(project.cellSpec);
+      setFrames(project.frames);
+      setSelectedFrameIds([]);
+      setClips(project.clips);
+      setActiveClipId(null);
+      setFps(project.fps);
+      setChromaKey(project.chromaKey);
+      setPreviewFrameIndex(0);
+  };
 
-        gif.on('finished', (blob: Blob) => {
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `animation-${Date.now()}.gif`;
-            a.click();
-            URL.revokeObjectURL(url);
-            URL.revokeObjectURL(workerUrl); // Clean up worker URL
-            setIsExporting(false);
-        });
+  const buildProject = () => serializeProject({
+      image: sourceImage, slicingMode, grid, dividers, cellSpec, frames, clips, fps, chromaKey,
+  });
 
-        gif.render();
+  const handleSaveProject = () => {
+      const json = JSON.stringify(buildProject());
+      downloadBlob(new Blob([json], { type: 'application/json' }), `sprite-project${PROJECT_EXTENSION}`);
+  };
 
-    } catch (e) {
-        console.error(e);
-        alert('Failed to export GIF. See console for details.');
-        setIsExporting(false);
-    }
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow reopening the same file
+      if (!file) return;
+      file.text()
+        .then(text => {
+            applyProject(parseProject(JSON.parse(text)));
+            setErrorMsg(null);
+        })
+        .catch((err: any) => setErrorMsg("Failed to open project: " + (err.message || "Unknown error")));
   };
-  
-  const handleExportPic = () => {
-  if (activeFrames.length === 0 || !imgRef.current?.complete) {
-    alert('No active frames or image not loaded!');
-    return;
-  }
-
-  const tempCanvas = document.createElement('canvas');
-  const tempCtx = tempCanvas.getContext('2d');
-  if (!tempCtx) {
-    alert('Failed to create canvas context!');
-    return;
-  }
-
-  // Iterate activeFrames (which are already sorted by sequenceOrder)
-  activeFrames.forEach((frame, index) => {
-    setTimeout(() => {
-      tempCanvas.width = frame.width;
-      tempCanvas.height = frame.height;
-
-      tempCtx.clearRect(0, 0, frame.width, frame.height);
-      
-      tempCtx.save();
-      if (frame.flipH) {
-          tempCtx.translate(frame.width, 0);
-          tempCtx.scale(-1, 1);
+
+  const restoreAutosave = () => {
+      if (!restorableProject) return;
+      try {
+          applyProject(parseProject(restorableProject));
+      } catch (err: any) {
+          setErrorMsg("Failed to restore session: " + (err.message || "Unknown error"));
       }
-      
-      tempCtx.drawImage(
-        imgRef.current,
-        frame.x,
-        frame.y,
-        frame.width,
-        frame.height,
-        frame.offsetX,
-        frame.offsetY,
-        frame.width,
-        frame.height
-      );
-      
-      tempCtx.restore();
+      setRestorableProject(null);
+  };
 
-      const url = tempCanvas.toDataURL('image/png');
-      const a = document.createElement('a');
-      a.href = url;
-      // USE INDEX FOR FILENAME TO PRESERVE ORDER
-      // Pad index with zeros (e.g., frame-001.png)
-      const paddedIndex = String(index).padStart(3, '0');
-      a.download = `frame-${paddedIndex}.png`; 
-      
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+  const discardAutosave = () => {
+      setRestorableProject(null);
+      clearAutosave().catch(() => {});
+  };
 
-      URL.revokeObjectURL(url);
-    }, index * 100);
-  });
-};
+  // Offer the last autosaved session on launch
+  useEffect(() => {
+      loadAutosave()
+        .then(project => { if (project?.image) setRestorableProject(project); })
+        .catch(err => console.warn('Autosave unavailable', err));
+  }, []);
 
-  // --- Preview Loop ---
+  // Autosave once edits settle. Nothing is written until there's an image, so a
+  // pending restore offer isn't overwritten by the empty startup state.
   useEffect(() => {
-    if (!isPlaying || activeFrames.length === 0) return;
+      if (!sourceImage) return;
+      const timeout = setTimeout(() => {
+          saveAutosave(buildProject()).catch(err => console.warn('Autosave failed', err));
+      }, 1000);
+      return () => clearTimeout(timeout);
+  }, [sourceImage, slicingMode, grid, dividers, cellSpec, frames, clips, fps, chromaKey]);
 
-    if (previewFrameIndex >= activeFrames.length) {
-        setPreviewFrameIndex(0);
+  // --- Export ---
+  const downloadBlob = (blob: Blob, filename: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      // Some browsers start the download asynchronously; revoking right away can cancel it
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // All formats share the same per-frame rendering and delays; APNG and WebP keep full alpha
+  const renderAnimation = async (sequence: FrameConfig[], frameFps: number, loop: boolean): Promise<Blob> => {
+    const inputs = sequence.map(frame => ({
+        canvas: renderFrame(imgRef.current, frame, exportScale),
+        delay: getFrameDuration(frame, frameFps),
+    }));
+
+    if (animationFormat === 'gif') {
+        // A non-looping clip always plays once; otherwise honor the configured loop count
+        const options = { ...gifOptions, repeat: loop ? gifOptions.repeat : -1 };
+        return encodeGifInWorker(inputs, options, value => setExportProgress({ label: 'Encoding', value }));
     }
+    return animationFormat === 'apng'
+        ? encodeApng(inputs, { loop })
+        : encodeAnimatedWebp(inputs, { loop });
+  };
 
-    const interval = setInterval(() => {
-      setPreviewFrameIndex(current => (current + 1) % activeFrames.length);
-    }, 1000 / fps);
+  const handleExportAnimation = async () => {
+    if (activeFrames.length === 0 || !imgRef.current?.complete) {
+      alert('No active frames to export!');
+      return;
+    }
 
-    return () => clearInterval(interval);
-  }, [isPlaying, fps, activeFrames.length]);
+    setIsExporting(true);
 
-  // --- Canvas Rendering ---
-  
-  const getRelativeMousePos = (e: React.MouseEvent) => {
-      const canvas = canvasRef.current;
-      if (!canvas) return { x: 0, y: 0 };
-      const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
-      return {
-          x: (e.clientX - rect.left) * scaleX,
-          y: (e.clientY - rect.top) * scaleY
-      };
+    try {
+        const blob = await renderAnimation(activeFrames, playbackFps, playbackLoop);
+        const name = activeClip ? activeClip.name : 'animation';
+        downloadBlob(blob, `${name}-${Date.now()}.${ANIMATION_FORMATS[animationFormat].ext}`);
+    } catch (e) {
+        console.error(e);
+        alert(`Failed to export ${ANIMATION_FORMATS[animationFormat].label}. See console for details.`);
+    } finally {
+        setIsExporting(false);
+        setExportProgress(null);
+    }
   };
 
-  const getSelectionRect = (box: SelectionBox) => {
-      const x = Math.min(box.startX, box.currentX);
-      const y = Math.min(box.startY, box.currentY);
-      const width = Math.abs(box.currentX - box.startX);
-      const height = Math.abs(box.currentY - box.startY);
-      return { x, y, width, height };
-  };
+  // One animation per clip, rendered one after another to keep memory in check,
+  // and bundled into a single ZIP (browsers block a burst of separate downloads)
+  const handleExportAllClips = async () => {
+    if (clips.length === 0 || !imgRef.current?.complete) return;
 
-  const isIntersecting = (r1: {x:number, y:number, width:number, height:number}, r2: {x:number, y:number, width:number, height:number}) => {
-      return !(r2.x > r1.x + r1.width || 
-               r2.x + r2.width < r1.x || 
-               r2.y > r1.y + r1.height || 
+    setIsExporting(true);
+
+    try {
+        const files: ZipFile[] = [];
+        const taken = new Set<string>();
+        for (const clip of clips) {
+            const sequence = resolveClipFrames(clip, frames);
+            if (sequence.length === 0) continue;
+            const blob = await renderAnimation(sequence, clip.fps, clip.loop);
+            const name = uniqueFileName(`${clip.name}.${ANIMATION_FORMATS[animationFormat].ext}`, taken);
+            files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+        }
+        if (files.length === 0) {
+            alert('No clip has any frames to export!');
+            return;
+        }
+        downloadBlob(buildZip(files), `clips-${Date.now()}.zip`);
+    } catch (e) {
+        console.error(e);
+        alert('Failed to export clips. See console for details.');
+    } finally {
+        setIsExporting(false);
+        setExportProgress(null);
+    }
+  };
+  
+  // Bundles the frame PNGs (and an optional manifest) into a single ZIP download
+  const handleExportPic = async () => {
+    if (activeFrames.length === 0 || !imgRef.current?.complete) {
+      alert('No active frames or image not loaded!');
+      return;
+    }
+
+    const sequences = zipOptions.allClips && clips.length > 0
+        ? clips.map(clip => ({ name: clip.name, frames: resolveClipFrames(clip, frames) }))
+        : [{ name: activeClip ? activeClip.name : 'frame', frames: activeFrames }];
+    const total = sequences.reduce((sum, seq) => sum + seq.frames.length, 0);
+
+    setIsExporting(true);
+    setExportProgress({ label: 'Zipping', value: 0 });
+
+    try {
+        const files: ZipFile[] = [];
+        const taken = new Set<string>();
+        const manifest: (Pick<FrameConfig, 'id' | 'x' | 'y' | 'width' | 'height' | 'offsetX' | 'offsetY' | 'flipH' | 'flipV' | 'rotation' | 'scale' | 'duration'> & ReturnType<typeof describeFrameMeta> & { clip: string; index: number; file: string })[] = [];
+
+        for (const seq of sequences) {
+            for (let index = 0; index < seq.frames.length; index++) {
+                const frame = seq.frames[index];
+                const blob = await canvasToBlob(renderFrame(imgRef.current, frame, exportScale));
+                const file = uniqueFileName(applyNamePattern(zipOptions.pattern, {
+                    clip: seq.name,
+                    index,
+                    id: frame.id,
+                    row: frame.row,
+                    col: frame.col,
+                }) + '.png', taken);
+
+                files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+                manifest.push({
+                    clip: seq.name, index, file, id: frame.id,
+                    x: frame.x, y: frame.y, width: frame.width, height: frame.height,
+                    offsetX: frame.offsetX, offsetY: frame.offsetY, flipH: frame.flipH, flipV: frame.flipV,
+                    rotation: frame.rotation, scale: frame.scale, duration: frame.duration,
+                    ...describeFrameMeta(frame, exportScale),
+                });
+                setExportProgress({ label: 'Zipping', value: files.length / total });
+            }
+        }
+
+        if (zipOptions.includeManifest) {
+            const json = JSON.stringify({ app: 'NanoSprite Studio', exportScale, frames: manifest }, null, 2);
+            files.push({ name: uniqueFileName('manifest.json', taken), data: new TextEncoder().encode(json) });
+        }
+
+        downloadBlob(buildZip(files), `frames-${Date.now()}.zip`);
+    } catch (e) {
+        console.error(e);
+        alert('Failed to export frames. See console for details.');
+    } finally {
+        setIsExporting(false);
+        setExportProgress(null);
+    }
+  };
+
+  // Packs every frame used by the default sequence or any clip into one PNG,
+  // plus a TexturePacker-style JSON descriptor with the clips as animations
+  const handleExportAtlas = async () => {
+    if (!imgRef.current?.complete) return;
+
+    // Mirrored clips render their frames differently, so they get entries of their own
+    const used = new Map<string, FrameConfig>();
+    const addSequence = (sequence: FrameConfig[], mirrored?: boolean) => sequence.map(frame => {
+        const name = `frame_${String(frame.id).padStart(3, '0')}${mirrored ? '_mirrored' : ''}`;
+        used.set(name, frame);
+        return name;
+    });
+    const animations: Record<string, string[]> = {};
+    const defaultNames = addSequence(getDefaultSequence(frames));
+    clips.forEach(clip => animations[clip.name] = addSequence(resolveClipFrames(clip, frames), clip.mirrored));
+    if (clips.length === 0) animations['default'] = defaultNames;
+
+    if (used.size === 0) {
+        alert('No active frames to export!');
+        return;
+    }
+
+    setIsExporting(true);
+
+    try {
+        const entries: AtlasEntry[] = Array.from(used, ([name, frame]) => ({
+            name,
+            canvas: renderFrame(imgRef.current, frame, exportScale),
+            duration: frame.duration,
+            ...describeFrameMeta(frame, exportScale),
+        }));
+        const pack = packRects(entries.map(e => e.canvas), atlasOptions.padding, atlasOptions.powerOfTwo);
+        const baseName = `atlas-${Date.now()}`;
+
+        const png = await canvasToBlob(drawAtlas(entries, pack));
+        const json = buildAtlasJson(entries, pack, {
+            format: atlasOptions.format,
+            imageName: `${baseName}.png`,
+            animations,
+        });
+
+        downloadBlob(png, `${baseName}.png`);
+        downloadBlob(new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+    } catch (e) {
+        console.error(e);
+        alert('Failed to export atlas. See console for details.');
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  // --- Timeline ---
+
+  useEffect(() => {
+      setTimelineSelection([]);
+  }, [activeClipId]);
+
+  // Writes a new playback order back to the active clip, or to the default sequence
+  const commitSequence = (ids: number[], label: string) => {
+      recordHistory(label);
+      if (activeClip) {
+          updateClip(activeClip.id, { frameIds: ids });
+      } else if (new Set(ids).size !== ids.length) {
+          // The default sequence holds each frame once, so a sequence with repeats becomes a clip
+          const clip = createClip(uniqueClipName(label.toLowerCase(), clips), ids, playbackFps);
+          setClips(prev => [...prev, clip]);
+          selectClip(clip.id);
+      } else {
+          setFrames(prev => applyDefaultOrder(prev, ids));
+      }
+  };
+
+  const selectTimelineEntry = (index: number, e: React.MouseEvent) => {
+      let next: number[];
+      if (e.shiftKey && timelineSelection.length > 0) {
+          const anchor = timelineSelection[timelineSelection.length - 1];
+          const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+          next = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+      } else if (e.ctrlKey || e.metaKey) {
+          next = timelineSelection.includes(index) ? timelineSelection.filter(i => i !== index) : [...timelineSelection, index];
+      } else {
+          next = [index];
+      }
+      setTimelineSelection(next);
+      setSelectedFrameIds(next.filter(i => activeFrames[i]).map(i => activeFrames[i].id).filter((id, i, ids) => ids.indexOf(id) === i));
+      setIsPlaying(false);
+      setPreviewFrameIndex(index);
+  };
+
+  const handleTimelineDragStart = (index: number, e: React.DragEvent) => {
+      const positions = timelineSelection.includes(index) ? [...timelineSelection].sort((a, b) => a - b) : [index];
+      if (!timelineSelection.includes(index)) setTimelineSelection(positions);
+      e.dataTransfer.effectAllowed = 'move';
+      setTimelineDrag(positions);
+  };
+
+  const handleTimelineDragOver = (index: number, e: React.DragEvent) => {
+      if (!timelineDrag) return;
+      e.preventDefault();
+      // Drop before or after the hovered thumbnail depending on which half the pointer is over
+      const bounds = (e.currentTarget as HTMLElement).getBoundingClientRect();
+      setTimelineDropIndex(e.clientX < bounds.left + bounds.width / 2 ? index : index + 1);
+  };
+
+  const handleTimelineDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      if (timelineDrag && timelineDropIndex !== null) {
+          const ids = moveEntries<number>(activeFrames.map(f => f.id), timelineDrag, timelineDropIndex);
+          const insertAt = timelineDropIndex - timelineDrag.filter(p => p < timelineDropIndex).length;
+          commitSequence(ids, 'Reorder sequence');
+          setTimelineSelection(timelineDrag.map((_, i) => insertAt + i));
+      }
+      setTimelineDrag(null);
+      setTimelineDropIndex(null);
+  };
+
+  const duplicateTimelineSelection = () => {
+      if (timelineSelection.length === 0) return;
+      commitSequence(duplicateEntries(activeFrames.map(f => f.id), timelineSelection), 'Duplicate frames');
+      setTimelineSelection([]);
+  };
+
+  const reverseTimelineRange = () => {
+      commitSequence(reverseRange(activeFrames.map(f => f.id), timelineSelection), 'Reverse');
+  };
+
+  const pingPongSequence = () => {
+      commitSequence(pingPong(activeFrames.map(f => f.id)), 'Ping-pong');
+      setTimelineSelection([]);
+  };
+
+  useEffect(() => {
+      if (!imgRef.current.complete) return;
+      activeFrames.forEach((frame, i) => {
+          const canvas = timelineCanvasRefs.current[i];
+          const ctx = canvas?.getContext('2d');
+          if (!canvas || !ctx) return;
+          const size = getRenderSize(frame);
+          canvas.width = size.width;
+          canvas.height = size.height;
+          drawFrame(ctx, imgRef.current, frame);
+      });
+  }, [activeFrames, imageRevision]);
+
+  // --- Keyboard Shortcuts ---
+
+  const togglePlayback = () => {
+      // Restart a finished non-looping clip instead of staying on its last frame
+      if (!isPlaying && !playbackLoop && previewFrameIndex >= activeFrames.length - 1) setPreviewFrameIndex(0);
+      setIsPlaying(!isPlaying);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+      switch (action) {
+          case 'nudgeLeft': return updateFrameOffset('x', -1);
+          case 'nudgeRight': return updateFrameOffset('x', 1);
+          case 'nudgeUp': return updateFrameOffset('y', -1);
+          case 'nudgeDown': return updateFrameOffset('y', 1);
+          case 'nudgeLeftFar': return updateFrameOffset('x', -10);
+          case 'nudgeRightFar': return updateFrameOffset('x', 10);
+          case 'nudgeUpFar': return updateFrameOffset('y', -10);
+          case 'nudgeDownFar': return updateFrameOffset('y', 10);
+          case 'selectAll': return setSelectedFrameIds(frames.map(f => f.id));
+          case 'deselect':
+              setSelectedFrameIds([]);
+              setTimelineSelection([]);
+              setEditorTool('select');
+              return;
+          case 'flip': return toggleFrameFlip('h');
+          case 'flipVertical': return toggleFrameFlip('v');
+          case 'rotate': return rotateFrames(1);
+          case 'toggleActive':
+              // Hand-drawn frames can be removed outright; grid frames can only be skipped
+              if (slicingMode === SlicingMode.MANUAL) return deleteSelectedFrames();
+              return setBatchActive(!frames.filter(f => selectedFrameIds.includes(f.id)).every(f => f.active));
+          case 'playPause': return togglePlayback();
+          case 'prevFrame': return stepPreview(-1);
+          case 'nextFrame': return stepPreview(1);
+          case 'undo': return undo();
+          case 'redo': return redo();
+          case 'showHelp': return setShowShortcutHelp(show => !show);
+      }
+  };
+
+  const handleShortcutKey = (e: KeyboardEvent) => {
+      const binding = eventToBinding(e);
+      if (!binding) return;
+
+      if (rebindingAction) {
+          e.preventDefault();
+          if (binding !== 'Escape') {
+              const next = rebindShortcut(shortcuts, rebindingAction, binding);
+              setShortcuts(next);
+              saveShortcuts(next);
+          }
+          setRebindingAction(null);
+          return;
+      }
+
+      // The shortcut overlay is modal: its own toggle and the clear binding (Esc) close it,
+      // every other shortcut is swallowed so nothing changes behind it (Tab and friends still work)
+      if (showShortcutHelp) {
+          const action = findShortcut(shortcuts, binding);
+          if (action) e.preventDefault();
+          if (action === 'showHelp' || action === 'deselect') setShowShortcutHelp(false);
+          return;
+      }
+
+      // Leave form controls their native keys (text undo, arrow keys on sliders...)
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+      // Holding Space over the canvas pans instead of toggling playback
+      if (binding === 'Space' && pointerOverCanvasRef.current) {
+          e.preventDefault();
+          setSpacePan(true);
+          return;
+      }
+
+      const action = findShortcut(shortcuts, binding);
+      if (!action) return;
+      if (SELECTION_ACTIONS.includes(action) && selectedFrameIds.length === 0) return;
+      e.preventDefault();
+      runShortcut(action);
+  };
+
+  // The listener is registered once and always calls the latest handler
+  const shortcutHandlerRef = useRef(handleShortcutKey);
+  shortcutHandlerRef.current = handleShortcutKey;
+
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+      const onKeyUp = (e: KeyboardEvent) => {
+          if (e.key === ' ') setSpacePan(false);
+      };
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      return () => {
+          window.removeEventListener('keydown', onKeyDown);
+          window.removeEventListener('keyup', onKeyUp);
+      };
+  }, []);
+
+  const resetShortcuts = () => {
+      setShortcuts(DEFAULT_SHORTCUTS);
+      saveShortcuts(DEFAULT_SHORTCUTS);
+  };
+
+  // --- Preview Loop ---
+  // One timeout per frame, since every frame may hold for a different duration
+  useEffect(() => {
+    if (!isPlaying || activeFrames.length === 0) return;
+
+    if (previewFrameIndex >= activeFrames.length) {
+        setPreviewFrameIndex(0);
+        return;
+    }
+
+    // Non-looping clips hold their last frame
+    if (!playbackLoop && previewFrameIndex === activeFrames.length - 1) return;
+
+    const timeout = setTimeout(() => {
+      setPreviewFrameIndex(current => (current + 1) % activeFrames.length);
+    }, getFrameDuration(activeFrames[previewFrameIndex], playbackFps));
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, playbackFps, playbackLoop, activeFrames, previewFrameIndex]);
+
+  // --- Canvas Rendering ---
+  
+  // Mouse position in image pixels, through the current zoom and pan. The view is kept in
+  // CSS pixels, so the device pixel ratio of the backing store doesn't enter here.
+  const getRelativeMousePos = (e: React.MouseEvent) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return { x: 0, y: 0 };
+      const rect = canvas.getBoundingClientRect();
+      return screenToImage(view, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const getSelectionRect = (box: SelectionBox) => {
+      const x = Math.min(box.startX, box.currentX);
+      const y = Math.min(box.startY, box.currentY);
+      const width = Math.abs(box.currentX - box.startX);
+      const height = Math.abs(box.currentY - box.startY);
+      return { x, y, width, height };
+  };
+
+  const isIntersecting = (r1: {x:number, y:number, width:number, height:number}, r2: {x:number, y:number, width:number, height:number}) => {
+      return !(r2.x > r1.x + r1.width || 
+               r2.x + r2.width < r1.x || 
+               r2.y > r1.y + r1.height || 
                r2.y + r2.height < r1.y);
   };
 
   // Main Draw Loop
   const drawEditor = () => {
     const canvas = canvasRef.current;
-    if (!canvas || !sourceImage || !frames.length) return;
+    if (!canvas || !sourceImage || viewportSize.width === 0) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     const img = imgRef.current;
-    
-    if (canvas.width !== img.width || canvas.height !== img.height) {
-        canvas.width = img.width;
-        canvas.height = img.height;
+    const { zoom, panX, panY } = view;
+    const px = 1 / zoom; // One screen pixel in image units, for line widths and handles
+    const dpr = pixelRatio;
+
+    // The canvas covers the viewport at device resolution; the view transform (and every
+    // screen-space transform below) works in CSS pixels and is scaled by the pixel ratio
+    const backingWidth = Math.round(viewportSize.width * dpr);
+    const backingHeight = Math.round(viewportSize.height * dpr);
+    if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+        canvas.width = backingWidth;
+        canvas.height = backingHeight;
     }
-
-    // 1. Draw Source Image
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // 1. Draw Source Image, nearest neighbour so pixel art stays sharp when zoomed
+    ctx.setTransform(dpr * zoom, 0, 0, dpr * zoom, dpr * panX, dpr * panY);
+    ctx.imageSmoothingEnabled = false;
     ctx.drawImage(img, 0, 0);
 
+    if (showPixelGrid && zoom >= PIXEL_GRID_MIN_ZOOM) {
+        // Only the visible part of the image
+        const x0 = Math.max(0, Math.floor(-panX / zoom));
+        const x1 = Math.min(img.width, Math.ceil((viewportSize.width - panX) / zoom));
+        const y0 = Math.max(0, Math.floor(-panY / zoom));
+        const y1 = Math.min(img.height, Math.ceil((viewportSize.height - panY) / zoom));
+        ctx.beginPath();
+        for (let x = x0; x <= x1; x++) {
+            ctx.moveTo(x, y0);
+            ctx.lineTo(x, y1);
+        }
+        for (let y = y0; y <= y1; y++) {
+            ctx.moveTo(x0, y);
+            ctx.lineTo(x1, y);
+        }
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+        ctx.lineWidth = px;
+        ctx.stroke();
+    }
+
     // 2. Draw Frame Overlays
-    // Pre-calculate sequence index for active frames to display badge
-    const activeFrameMap = new Map<number, number>();
-    activeFrames.forEach((f, idx) => activeFrameMap.set(f.id, idx + 1));
+    // Pre-calculate sequence positions for active frames to display badge.
+    // A clip can use the same frame more than once, so collect every position.
+    const activeFrameMap = new Map<number, number[]>();
+    activeFrames.forEach((f, idx) => activeFrameMap.set(f.id, [...(activeFrameMap.get(f.id) || []), idx + 1]));
 
     frames.forEach(frame => {
-        // If flipped, render the flipped version on top so user sees the change
-        if (frame.flipH && frame.active) {
+        // Flipped frames are redrawn in place so the user sees the change. Rotation and
+        // scale change the frame's size, so those only show up as a badge (and in the preview).
+        if ((frame.flipH || frame.flipV) && frame.active) {
             ctx.save();
-            // Optional: Clear underneath to prevent ghosting if transparent, 
-            // though clearing on top of source image shows canvas background.
-            // Usually simpler to just draw over for opaque sprites.
             ctx.clearRect(frame.x, frame.y, frame.width, frame.height);
-            
-            // Transform for this specific frame rect
-            ctx.translate(frame.x + frame.width, frame.y);
-            ctx.scale(-1, 1);
-            
-            // Draw the source slice at (0,0) relative to translation
-            // Source is at frame.x, frame.y
-            ctx.drawImage(img, frame.x, frame.y, frame.width, frame.height, 0, 0, frame.width, frame.height);
+            ctx.translate(frame.x, frame.y);
+            drawFrame(ctx, img, { ...frame, offsetX: 0, offsetY: 0, rotation: 0, scale: 1 });
             ctx.restore();
         }
 
@@ -471,17 +1605,29 @@ const App: React.FC = () => {
             ctx.moveTo(frame.x + frame.width, frame.y);
             ctx.lineTo(frame.x, frame.y + frame.height);
             ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-            ctx.lineWidth = 1;
+            ctx.lineWidth = px;
             ctx.stroke();
         } else {
              // Draw Sequence Badge
-             const seqNum = activeFrameMap.get(frame.id);
-             if (seqNum !== undefined) {
+             const seqNums = activeFrameMap.get(frame.id);
+             if (seqNums !== undefined) {
+                 const label = seqNums.join(',');
+                 ctx.font = `${12 * px}px sans-serif`;
+                 const badgeWidth = Math.max(20 * px, ctx.measureText(label).width + 12 * px);
                  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-                 ctx.fillRect(frame.x + 2, frame.y + 2, 20, 20);
+                 ctx.fillRect(frame.x + 2 * px, frame.y + 2 * px, badgeWidth, 20 * px);
                  ctx.fillStyle = '#fff';
-                 ctx.font = '12px sans-serif';
-                 ctx.fillText(seqNum.toString(), frame.x + 8, frame.y + 16);
+                 ctx.fillText(label, frame.x + 8 * px, frame.y + 16 * px);
+             }
+
+             const transform = describeTransform(frame);
+             if (transform) {
+                 ctx.font = `${11 * px}px sans-serif`;
+                 const width = ctx.measureText(transform).width + 10 * px;
+                 ctx.fillStyle = 'rgba(79, 70, 229, 0.8)';
+                 ctx.fillRect(frame.x + 2 * px, frame.y + frame.height - 20 * px, width, 18 * px);
+                 ctx.fillStyle = '#fff';
+                 ctx.fillText(transform, frame.x + 7 * px, frame.y + frame.height - 7 * px);
              }
         }
 
@@ -490,73 +1636,237 @@ const App: React.FC = () => {
             ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
             ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
             ctx.strokeStyle = '#3b82f6';
-            ctx.lineWidth = 2;
+            ctx.lineWidth = 2 * px;
             ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
             
             // Draw Offset Indicator
             if (frame.offsetX !== 0 || frame.offsetY !== 0) {
                  ctx.save();
                  ctx.strokeStyle = 'rgba(255, 0, 0, 0.6)';
-                 ctx.setLineDash([4, 4]);
+                 ctx.lineWidth = px;
+                 ctx.setLineDash([4 * px, 4 * px]);
                  ctx.strokeRect(frame.x + frame.offsetX, frame.y + frame.offsetY, frame.width, frame.height);
                  ctx.restore();
             }
         }
     });
 
-    // 3. Draw Grid Lines
-    dividers.v.forEach((pos, idx) => {
-        const x = pos * canvas.width;
-        const isHovered = hoverTarget?.type === 'v' && hoverTarget.index === idx;
-        const isDragging = dragTarget?.type === 'v' && dragTarget.index === idx;
-
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
-        ctx.lineWidth = isHovered || isDragging ? 3 : 1;
-        ctx.strokeStyle = isHovered || isDragging ? '#ef4444' : 'rgba(0, 255, 255, 0.7)';
-        ctx.stroke();
+    // Pivots and collision boxes. Default pivots are only shown while placing them.
+    const editingMeta = editorTool === 'pivot' || editorTool === 'hitbox' || editorTool === 'hurtbox';
+    // Drawn in screen space so markers keep their size at any zoom
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    frames.forEach(frame => {
+        if (!frame.active && !selectedFrameIds.includes(frame.id)) return;
+        drawFrameMeta(ctx, frame, panX + frame.x * zoom, panY + frame.y * zoom, zoom, { showPivot: !!frame.pivot || editingMeta });
     });
+    ctx.setTransform(dpr * zoom, 0, 0, dpr * zoom, dpr * panX, dpr * panY);
+    if (metaDrag?.kind === 'box') {
+        const rect = getSelectionRect({ startX: metaDrag.startX, startY: metaDrag.startY, currentX: metaDrag.currentX, currentY: metaDrag.currentY });
+        ctx.save();
+        ctx.strokeStyle = BOX_COLORS[metaDrag.boxKind];
+        ctx.lineWidth = px;
+        ctx.setLineDash([4 * px, 4 * px]);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.restore();
+    }
 
-    dividers.h.forEach((pos, idx) => {
-        const y = pos * canvas.height;
-        const isHovered = hoverTarget?.type === 'h' && hoverTarget.index === idx;
-        const isDragging = dragTarget?.type === 'h' && dragTarget.index === idx;
+    // 3. Draw Grid Lines (only meaningful when the grid owns the frames)
+    if (slicingMode === SlicingMode.GRID) {
+        dividers.v.forEach((pos, idx) => {
+            const x = pos * img.width;
+            const isHovered = hoverTarget?.type === 'v' && hoverTarget.index === idx;
+            const isDragging = dragTarget?.type === 'v' && dragTarget.index === idx;
 
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.lineWidth = isHovered || isDragging ? 3 : 1;
-        ctx.strokeStyle = isHovered || isDragging ? '#ef4444' : 'rgba(0, 255, 255, 0.7)';
-        ctx.stroke();
-    });
+            ctx.beginPath();
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x, img.height);
+            ctx.lineWidth = (isHovered || isDragging ? 3 : 1) * px;
+            ctx.strokeStyle = isHovered || isDragging ? '#ef4444' : 'rgba(0, 255, 255, 0.7)';
+            ctx.stroke();
+        });
+
+        dividers.h.forEach((pos, idx) => {
+            const y = pos * img.height;
+            const isHovered = hoverTarget?.type === 'h' && hoverTarget.index === idx;
+            const isDragging = dragTarget?.type === 'h' && dragTarget.index === idx;
 
-    // 4. Draw Selection Box
+            ctx.beginPath();
+            ctx.moveTo(0, y);
+            ctx.lineTo(img.width, y);
+            ctx.lineWidth = (isHovered || isDragging ? 3 : 1) * px;
+            ctx.strokeStyle = isHovered || isDragging ? '#ef4444' : 'rgba(0, 255, 255, 0.7)';
+            ctx.stroke();
+        });
+    } else {
+        // Free-form frames have no shared grid, so outline each one individually
+        ctx.strokeStyle = 'rgba(0, 255, 255, 0.7)';
+        ctx.lineWidth = px;
+        frames.forEach(frame => ctx.strokeRect(frame.x + px / 2, frame.y + px / 2, frame.width - px, frame.height - px));
+    }
+
+    // Resize handles for a single selected hand-drawn frame
+    if (slicingMode === SlicingMode.MANUAL && selectedFrameIds.length === 1) {
+        const selected = frames.find(f => f.id === selectedFrameIds[0]);
+        if (selected) {
+            getHandlePoints(selected).forEach(p => {
+                ctx.fillStyle = manualHover === p.handle ? '#ef4444' : '#fff';
+                ctx.strokeStyle = '#3b82f6';
+                ctx.lineWidth = px;
+                const size = HANDLE_SIZE * px;
+                ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+                ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+            });
+        }
+    }
+
+    // 4. Draw Selection Box (or the new frame being drawn)
     if (selectionBox) {
         const rect = getSelectionRect(selectionBox);
-        ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+        ctx.save();
+        if (isDrawingFrame) {
+            ctx.fillStyle = 'rgba(34, 197, 94, 0.15)';
+            ctx.strokeStyle = 'rgba(34, 197, 94, 0.9)';
+            ctx.setLineDash([4 * px, 4 * px]);
+        } else {
+            ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+            ctx.strokeStyle = 'rgba(59, 130, 246, 0.8)';
+        }
         ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
-        ctx.strokeStyle = 'rgba(59, 130, 246, 0.8)';
-        ctx.lineWidth = 1;
+        ctx.lineWidth = px;
         ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.restore();
     }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
   };
 
   useEffect(() => {
      requestAnimationFrame(drawEditor);
-  }, [sourceImage, frames, dividers, hoverTarget, dragTarget, selectedFrameIds, selectionBox, activeFrames]);
+  }, [sourceImage, imageRevision, frames, dividers, hoverTarget, dragTarget, selectedFrameIds, selectionBox, activeFrames, slicingMode, manualHover, isDrawingFrame, editorTool, metaDrag, view, viewportSize, pixelRatio, showPixelGrid]);
+
+  // --- Zoom & Pan ---
+
+  // Track the canvas area size; the editor canvas is drawn at exactly that size
+  useEffect(() => {
+      const area = containerRef.current;
+      if (!area) return;
+      const observer = new ResizeObserver(() => setViewportSize({ width: area.clientWidth, height: area.clientHeight }));
+      observer.observe(area);
+      return () => observer.disconnect();
+  }, [sourceImage]);
+
+  // The pixel ratio changes with browser zoom or when the window moves to another screen;
+  // both fire a resize
+  useEffect(() => {
+      const updatePixelRatio = () => setPixelRatio(window.devicePixelRatio || 1);
+      window.addEventListener('resize', updatePixelRatio);
+      return () => window.removeEventListener('resize', updatePixelRatio);
+  }, []);
+
+  const fitToView = () => {
+      if (!imageSize || viewportSize.width === 0) return;
+      setView(fitView(imageSize.width, imageSize.height, viewportSize.width, viewportSize.height));
+  };
+
+  // Fit each newly loaded sheet once the viewport is known
+  useEffect(() => {
+      if (!imageSize || viewportSize.width === 0 || fittedImageRef.current === imageSize) return;
+      fittedImageRef.current = imageSize;
+      fitToView();
+  }, [imageSize, viewportSize]);
+
+  // Zoom buttons keep the center of the viewport in place
+  const stepZoom = (direction: 1 | -1) => {
+      setView(v => zoomAt(v, nextZoomStep(v.zoom, direction), viewportSize.width / 2, viewportSize.height / 2));
+  };
+
+  const resetZoom = () => {
+      if (!imageSize) return;
+      setView(centerView(1, imageSize.width, imageSize.height, viewportSize.width, viewportSize.height));
+  };
+
+  // Wheel zooms around the pointer; registered natively so preventDefault stops page scrolling
+  useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const onWheel = (e: WheelEvent) => {
+          e.preventDefault();
+          const rect = canvas.getBoundingClientRect();
+          const factor = Math.exp(-e.deltaY * (e.deltaMode === 1 ? 0.05 : 0.0015));
+          setView(v => zoomAt(v, v.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+      };
+      canvas.addEventListener('wheel', onWheel, { passive: false });
+      return () => canvas.removeEventListener('wheel', onWheel);
+  }, [sourceImage]);
 
 
   // --- Canvas Interaction ---
 
   const handleMouseDown = (e: React.MouseEvent) => {
+      // Middle mouse, or left mouse with Space held, pans the view
+      if (e.button === 1 || (e.button === 0 && spacePan)) {
+          e.preventDefault();
+          setPanDrag({ startX: e.clientX, startY: e.clientY, origin: view });
+          return;
+      }
+      if (e.button !== 0) return;
+
       const { x, y } = getRelativeMousePos(e);
 
+      if (editorTool === 'eyedropper') {
+          pickKeyColor(x, y, e.shiftKey);
+          return;
+      }
+
+      if (editorTool === 'pivot' || editorTool === 'hitbox' || editorTool === 'hurtbox') {
+          const hit = [...frames].reverse().find(f => containsPoint(f, x, y));
+          if (!hit) return;
+          if (editorTool === 'pivot') {
+              // Dragging inside one frame of a selection places the pivot for all of them
+              const targets = selectedFrameIds.includes(hit.id) ? selectedFrameIds : [hit.id];
+              setSelectedFrameIds(targets);
+              beginDragHistory('Set pivot');
+              applyPivot(targets, x - hit.x, y - hit.y);
+              setMetaDrag({ kind: 'pivot', frameId: hit.id, targets });
+          } else {
+              setSelectedFrameIds([hit.id]);
+              setMetaDrag({ kind: 'box', boxKind: editorTool, frameId: hit.id, startX: x, startY: y, currentX: x, currentY: y });
+          }
+          return;
+      }
+
       if (hoverTarget) {
+          beginDragHistory('Move divider');
           setDragTarget(hoverTarget);
           return;
       }
 
+      // Manual mode: resize / move existing frames, or draw a new one on empty space.
+      // Holding Shift falls through to the regular marquee selection.
+      if (slicingMode === SlicingMode.MANUAL && !e.shiftKey) {
+          if (selectedFrameIds.length === 1) {
+              const selected = frames.find(f => f.id === selectedFrameIds[0]);
+              const handle = selected ? hitTestHandle(selected, x, y, HANDLE_SIZE / view.zoom) : null;
+              if (selected && handle) {
+                  beginDragHistory('Resize frame');
+                  setFrameDrag({ kind: 'resize', handle, startX: x, startY: y, origin: { [selected.id]: { ...selected } } });
+                  return;
+              }
+          }
+
+          const hit = [...frames].reverse().find(f => containsPoint(f, x, y));
+          if (hit) {
+              const ids = selectedFrameIds.includes(hit.id) ? selectedFrameIds : [hit.id];
+              const origin: Record<number, Rect> = {};
+              frames.filter(f => ids.includes(f.id)).forEach(f => origin[f.id] = { x: f.x, y: f.y, width: f.width, height: f.height });
+              setSelectedFrameIds(ids);
+              beginDragHistory('Move frame');
+              setFrameDrag({ kind: 'move', startX: x, startY: y, origin });
+              return;
+          }
+
+          setIsDrawingFrame(true);
+      }
+
       setIsSelecting(true);
       setSelectionBox({
           startX: x,
@@ -567,15 +1877,24 @@ const App: React.FC = () => {
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+      if (panDrag) {
+          setView({
+              ...panDrag.origin,
+              panX: panDrag.origin.panX + e.clientX - panDrag.startX,
+              panY: panDrag.origin.panY + e.clientY - panDrag.startY,
+          });
+          return;
+      }
+
       const { x, y } = getRelativeMousePos(e);
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+      const img = imgRef.current;
+      const tolerance = HIT_TOLERANCE / view.zoom;
 
       if (dragTarget) {
           if (dragTarget.type === 'v') {
               const prevLimit = dragTarget.index === 0 ? 0 : dividers.v[dragTarget.index - 1];
               const nextLimit = dragTarget.index === dividers.v.length - 1 ? 1 : dividers.v[dragTarget.index + 1];
-              let newPos = x / canvas.width;
+              let newPos = x / img.width;
               newPos = Math.max(prevLimit + 0.01, Math.min(nextLimit - 0.01, newPos));
               const newV = [...dividers.v];
               newV[dragTarget.index] = newPos;
@@ -583,7 +1902,7 @@ const App: React.FC = () => {
           } else {
               const prevLimit = dragTarget.index === 0 ? 0 : dividers.h[dragTarget.index - 1];
               const nextLimit = dragTarget.index === dividers.h.length - 1 ? 1 : dividers.h[dragTarget.index + 1];
-              let newPos = y / canvas.height;
+              let newPos = y / img.height;
               newPos = Math.max(prevLimit + 0.01, Math.min(nextLimit - 0.01, newPos));
               const newH = [...dividers.h];
               newH[dragTarget.index] = newPos;
@@ -592,23 +1911,62 @@ const App: React.FC = () => {
           return;
       }
 
+      if (metaDrag) {
+          const frame = frames.find(f => f.id === metaDrag.frameId);
+          if (!frame) return;
+          if (metaDrag.kind === 'pivot') {
+              applyPivot(metaDrag.targets, x - frame.x, y - frame.y);
+          } else {
+              // Boxes stay inside the frame they were started in
+              const p = clampPoint(frame, x - frame.x, y - frame.y);
+              setMetaDrag({ ...metaDrag, currentX: frame.x + p.x, currentY: frame.y + p.y });
+          }
+          return;
+      }
+
+      if (frameDrag) {
+          const dx = x - frameDrag.startX;
+          const dy = y - frameDrag.startY;
+          const bounds = { width: img.width, height: img.height };
+          setFrames(prev => prev.map(f => {
+              const origin = frameDrag.origin[f.id];
+              if (!origin) return f;
+              const rect = frameDrag.kind === 'resize' && frameDrag.handle
+                  ? resizeRect(origin, frameDrag.handle, dx, dy, bounds, MIN_FRAME_SIZE)
+                  : moveRect(origin, dx, dy, bounds);
+              return { ...f, ...rect };
+          }));
+          return;
+      }
+
       if (isSelecting && selectionBox) {
           setSelectionBox(prev => prev ? ({ ...prev, currentX: x, currentY: y }) : null);
           return;
       }
 
+      if (slicingMode === SlicingMode.MANUAL) {
+          const selected = selectedFrameIds.length === 1 ? frames.find(f => f.id === selectedFrameIds[0]) : undefined;
+          const handle = selected ? hitTestHandle(selected, x, y, HANDLE_SIZE / view.zoom) : null;
+          setManualHover(handle || (frames.some(f => containsPoint(f, x, y)) ? 'move' : null));
+      }
+
+      if (slicingMode !== SlicingMode.GRID) {
+          setHoverTarget(null);
+          return;
+      }
+
       let found: { type: 'v' | 'h', index: number } | null = null;
       for (let i = 0; i < dividers.v.length; i++) {
-          const lineX = dividers.v[i] * canvas.width;
-          if (Math.abs(x - lineX) < HIT_TOLERANCE) {
+          const lineX = dividers.v[i] * img.width;
+          if (Math.abs(x - lineX) < tolerance) {
               found = { type: 'v', index: i };
               break;
           }
       }
       if (!found) {
           for (let i = 0; i < dividers.h.length; i++) {
-              const lineY = dividers.h[i] * canvas.height;
-              if (Math.abs(y - lineY) < HIT_TOLERANCE) {
+              const lineY = dividers.h[i] * img.height;
+              if (Math.abs(y - lineY) < tolerance) {
                   found = { type: 'h', index: i };
                   break;
               }
@@ -618,16 +1976,56 @@ const App: React.FC = () => {
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+      if (panDrag) {
+          setPanDrag(null);
+          return;
+      }
+
       if (dragTarget) {
+          commitDragHistory();
           setDragTarget(null);
           return;
       }
 
+      if (frameDrag) {
+          commitDragHistory();
+          setFrameDrag(null);
+          return;
+      }
+
+      if (metaDrag) {
+          if (metaDrag.kind === 'pivot') {
+              commitDragHistory();
+          } else {
+              const frame = frames.find(f => f.id === metaDrag.frameId);
+              const rect = getSelectionRect(metaDrag);
+              if (frame && rect.width >= 2 && rect.height >= 2) {
+                  addFrameBox(frame.id, metaDrag.boxKind, {
+                      x: Math.round(rect.x - frame.x),
+                      y: Math.round(rect.y - frame.y),
+                      width: Math.round(rect.width),
+                      height: Math.round(rect.height),
+                  });
+              }
+          }
+          setMetaDrag(null);
+          return;
+      }
+
       if (isSelecting && selectionBox) {
           const { x, y } = getRelativeMousePos(e);
-          const dist = Math.sqrt(Math.pow(x - selectionBox.startX, 2) + Math.pow(y - selectionBox.startY, 2));
-
-          if (dist < 5) {
+          // Click vs. drag is decided in screen pixels
+          const dist = Math.sqrt(Math.pow(x - selectionBox.startX, 2) + Math.pow(y - selectionBox.startY, 2)) * view.zoom;
+          const img = imgRef.current;
+
+          if (isDrawingFrame) {
+              const rect = clampRect(getSelectionRect({ ...selectionBox, currentX: x, currentY: y }), img);
+              if (rect.width >= MIN_FRAME_SIZE && rect.height >= MIN_FRAME_SIZE) {
+                  addManualFrame(rect);
+              } else {
+                  setSelectedFrameIds([]);
+              }
+          } else if (dist < 5) {
               const clickedFrame = frames.find(f => 
                 x >= f.x && x < f.x + f.width && 
                 y >= f.y && y < f.y + f.height
@@ -645,59 +2043,103 @@ const App: React.FC = () => {
           
           setSelectionBox(null);
           setIsSelecting(false);
+          setIsDrawingFrame(false);
       }
   };
 
   const handleMouseLeave = () => {
+      commitDragHistory();
       setDragTarget(null);
       setHoverTarget(null);
       setSelectionBox(null);
       setIsSelecting(false);
+      setIsDrawingFrame(false);
+      setFrameDrag(null);
+      setManualHover(null);
+      setMetaDrag(null);
+      setPanDrag(null);
+      pointerOverCanvasRef.current = false;
   };
 
   const getCursor = () => {
+      if (panDrag) return 'grabbing';
+      if (spacePan) return 'grab';
+      if (editorTool !== 'select') return 'crosshair';
       if (dragTarget) return dragTarget.type === 'v' ? 'col-resize' : 'row-resize';
       if (hoverTarget) return hoverTarget.type === 'v' ? 'col-resize' : 'row-resize';
+      if (frameDrag) return frameDrag.kind === 'resize' && frameDrag.handle ? HANDLE_CURSORS[frameDrag.handle] : 'move';
       if (isSelecting) return 'crosshair';
+      if (slicingMode === SlicingMode.MANUAL) {
+          if (manualHover === 'move') return 'move';
+          if (manualHover) return HANDLE_CURSORS[manualHover];
+          return 'crosshair';
+      }
       return 'default';
   };
 
   // --- Preview Renderer ---
+
+  const stepPreview = (delta: number) => {
+      if (activeFrames.length === 0) return;
+      setIsPlaying(false);
+      setPreviewFrameIndex(i => ((i % activeFrames.length) + delta + activeFrames.length) % activeFrames.length);
+  };
+
   useEffect(() => {
-      if (!previewCanvasRef.current) return;
-      const ctx = previewCanvasRef.current.getContext('2d');
+      const canvas = previewCanvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
       if (activeFrames.length === 0) {
-          ctx.clearRect(0, 0, previewCanvasRef.current.width, previewCanvasRef.current.height);
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
           ctx.fillStyle = '#18181b';
-          ctx.fillRect(0, 0, previewCanvasRef.current.width, previewCanvasRef.current.height);
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
           return;
       }
 
       const safeIndex = previewFrameIndex % activeFrames.length;
       const frame = activeFrames[safeIndex];
-      
-      if (imgRef.current.complete && frame) {
-          previewCanvasRef.current.width = frame.width;
-          previewCanvasRef.current.height = frame.height;
-
-          ctx.clearRect(0, 0, frame.width, frame.height);
-          
-          ctx.save();
-          if (frame.flipH) {
-             ctx.translate(frame.width, 0);
-             ctx.scale(-1, 1);
-          }
-
-          ctx.drawImage(
-              imgRef.current, 
-              frame.x, frame.y, frame.width, frame.height, 
-              frame.offsetX, frame.offsetY, frame.width, frame.height
-          );
-          ctx.restore();
+      if (!imgRef.current.complete || !frame) return;
+
+      const layers = getOnionLayers(activeFrames, safeIndex, { ...onionSkin, wrap: onionSkin.wrap && playbackLoop });
+      const sizes = [frame, ...layers.map(l => l.frame)].map(f => getRenderSize(f));
+      const width = Math.max(...sizes.map(size => size.width));
+      const height = Math.max(...sizes.map(size => size.height));
+
+      // Integer upscale keeps pixel art crisp and the guides one screen pixel wide
+      const scale = Math.max(1, Math.floor(Math.min(PREVIEW_SIZE / width, PREVIEW_SIZE / height)));
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      ctx.imageSmoothingEnabled = false;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      layers.forEach(layer => {
+          ctx.globalAlpha = layer.opacity;
+          const ghost = renderTintedFrame(imgRef.current, layer.frame, layer.tint);
+          ctx.drawImage(ghost, 0, 0, ghost.width * scale, ghost.height * scale);
+      });
+      ctx.globalAlpha = 1;
+      const current = renderFrame(imgRef.current, frame);
+      ctx.drawImage(current, 0, 0, current.width * scale, current.height * scale);
+      if (showFrameMeta) drawFrameMeta(ctx, frame, 0, 0, scale, { rendered: true });
+
+      if (previewGuides.enabled) {
+          const x = Math.round(sizes[0].width * previewGuides.pivotX) * scale + 0.5;
+          const y = Math.round(sizes[0].height * previewGuides.baselineY) * scale + 0.5;
+          ctx.strokeStyle = 'rgba(34, 211, 238, 0.9)'; // cyan-400
+          ctx.lineWidth = 1;
+          ctx.setLineDash([4, 3]);
+          ctx.beginPath();
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, canvas.height);
+          ctx.moveTo(0, y);
+          ctx.lineTo(canvas.width, y);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.strokeRect(x - 4, y - 4, 8, 8);
       }
-  }, [previewFrameIndex, activeFrames]);
+  }, [previewFrameIndex, activeFrames, imageRevision, onionSkin, previewGuides, playbackLoop, showFrameMeta]);
 
   return (
     <div className="flex h-screen w-full bg-zinc-950 text-zinc-200 font-sans overflow-hidden">
@@ -714,23 +2156,175 @@ const App: React.FC = () => {
           <p className="text-xs text-zinc-500 mt-1">AI Sprite Sheet Slicer</p>
         </div>
 
+        {restorableProject && (
+          <div className="p-3 bg-indigo-900/20 border border-indigo-800 rounded text-xs text-indigo-200 space-y-2">
+            <div className="flex items-center gap-2">
+              <History className="w-3 h-3" />
+              Restore your previous session?
+            </div>
+            <div className="text-[10px] text-zinc-400">Autosaved {new Date(restorableProject.savedAt).toLocaleString()}</div>
+            <div className="flex gap-2">
+              <button onClick={restoreAutosave} className="flex-1 py-1 bg-indigo-600 hover:bg-indigo-500 rounded text-xs font-medium">Restore</button>
+              <button onClick={discardAutosave} className="flex-1 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs">Discard</button>
+            </div>
+          </div>
+        )}
+
         {/* Generator Section */}
         <div className="space-y-3">
           <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Generate New</label>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] text-zinc-500 uppercase font-semibold">Provider</span>
+              <select
+                value={provider.id}
+                onChange={(e) => selectProvider(e.target.value as ProviderId)}
+                title={provider.description}
+                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs"
+              >
+                {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            {provider.fields.map(field => (
+              <div key={field.key} className="flex items-center justify-between gap-2">
+                <span className="text-[10px] text-zinc-500 uppercase font-semibold">{field.label}</span>
+                <input
+                  type={field.secret ? 'password' : 'text'}
+                  value={providerSettings[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) => updateProviderSetting(field.key, e.target.value)}
+                  className="w-40 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs"
+                />
+              </div>
+            ))}
+          </div>
           <textarea 
             className="w-full bg-zinc-950 border border-zinc-700 rounded p-3 text-sm focus:border-indigo-500 focus:outline-none resize-none h-24"
             placeholder="Describe your character..."
-            value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
+            value={generation.prompt}
+            onChange={(e) => updateGeneration({ prompt: e.target.value })}
           />
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1">Aspect Ratio</span>
+              <select
+                value={generation.ratio}
+                onChange={(e) => updateGeneration({ ratio: e.target.value })}
+                className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs"
+              >
+                {aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+            </div>
+            <div>
+              <span className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1">Style</span>
+              <select
+                value={generation.style}
+                onChange={(e) => updateGeneration({ style: e.target.value as SpriteStyle })}
+                className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs"
+              >
+                {(Object.keys(STYLE_PRESETS) as SpriteStyle[]).map(style => <option key={style} value={style}>{STYLE_PRESETS[style].label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {([['rows', 'Rows'], ['cols', 'Cols'], ['frameCount', 'Frames']] as const).map(([key, label]) => (
+              <div key={key}>
+                <span className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1">{label}</span>
+                <input
+                  type="number"
+                  min="1"
+                  max={key === 'frameCount' ? generation.rows * generation.cols : MAX_GRID_DIVISIONS}
+                  value={generation[key]}
+                  onChange={(e) => updateGeneration({ [key]: Math.max(1, Math.min(key === 'frameCount' ? generation.rows * generation.cols : MAX_GRID_DIVISIONS, parseInt(e.target.value) || 1)) })}
+                  className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-zinc-500 uppercase font-semibold">Background</span>
+            <div className="flex items-center gap-1">
+              {KEY_COLOR_PRESETS.map(preset => (
+                <button
+                  key={preset.color}
+                  onClick={() => updateGeneration({ background: preset.color })}
+                  title={preset.label}
+                  className={`w-5 h-5 rounded border ${generation.background === preset.color ? 'border-white' : 'border-zinc-700'}`}
+                  style={{ backgroundColor: preset.color }}
+                />
+              ))}
+              <input
+                type="color"
+                value={generation.background}
+                onChange={(e) => updateGeneration({ background: e.target.value })}
+                title="Custom key color"
+                className="w-6 h-5 bg-transparent border border-zinc-700 rounded cursor-pointer"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-zinc-500 uppercase font-semibold">References ({references.length}/{MAX_REFERENCE_IMAGES})</span>
+              {!capabilities.references && references.length > 0 && (
+                <span className="text-[10px] text-amber-500" title={`${provider.label} ignores reference images`}>Not sent</span>
+              )}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={addFrameReference}
+                  disabled={!focusFrame || references.length >= MAX_REFERENCE_IMAGES}
+                  title="Use the selected frame as a reference"
+                  className="text-[10px] text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                >
+                  From Frame
+                </button>
+                <label
+                  title="Upload character concepts"
+                  className={`text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1 cursor-pointer ${references.length >= MAX_REFERENCE_IMAGES ? 'opacity-50 pointer-events-none' : ''}`}
+                >
+                  <ImagePlus className="w-3 h-3" /> Upload
+                  <input type="file" className="hidden" accept="image/*" multiple onChange={handleReferenceUpload} />
+                </label>
+              </div>
+            </div>
+            {references.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {references.map(ref => (
+                  <div key={ref.id} className="relative w-12 h-12 bg-zinc-950 border border-zinc-700 rounded overflow-hidden" title={ref.name}>
+                    <img src={ref.dataUrl} alt={ref.name} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                    <button
+                      onClick={() => setReferences(prev => prev.filter(r => r.id !== ref.id))}
+                      className="absolute top-0 right-0 bg-zinc-900/80 text-zinc-400 hover:text-red-400 rounded-bl"
+                      title="Remove reference"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
           <button 
             onClick={handleGenerate}
             disabled={isGenerating}
             className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
           >
             {isGenerating ? <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"/> : <Wand2 className="w-4 h-4" />}
-            Generate Sprite
+            {variantCount > 1 ? `Generate ${variantCount} Variants` : 'Generate Sprite'}
           </button>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-zinc-500 uppercase font-semibold">Variants</span>
+            <div className="flex gap-1">
+              {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                <button
+                  key={n}
+                  onClick={() => setVariantCount(n)}
+                  className={`w-6 py-0.5 rounded text-xs transition-colors ${variantCount === n ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+          </div>
           {errorMsg && (
             <div className="p-2 bg-red-900/20 border border-red-800 rounded text-xs text-red-300 flex items-center gap-2">
               <AlertCircle className="w-3 h-3" />
@@ -739,6 +2333,49 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {/* Generation Gallery */}
+        {generations.length > 0 && (
+          <>
+            <div className="h-px bg-zinc-800" />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                  <Images className="w-3 h-3" /> Gallery ({generations.length})
+                </label>
+                <button onClick={clearGallery} className="text-[10px] text-zinc-500 hover:text-red-400">Clear</button>
+              </div>
+              <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                {groupByBatch(generations).map(batch => (
+                  <div key={batch.batchId} className="space-y-1">
+                    <div className="text-[10px] text-zinc-500 truncate" title={batch.records[0].config.prompt}>
+                      {new Date(batch.records[0].createdAt).toLocaleTimeString()} · {batch.records[0].config.prompt}
+                    </div>
+                    <div className="grid grid-cols-4 gap-1">
+                      {batch.records.map(record => (
+                        <div
+                          key={record.id}
+                          onClick={() => openGeneration(record).catch(() => setErrorMsg("Couldn't open this sheet."))}
+                          title={`${record.provider ? `${record.provider}, ` : ''}${record.config.rows}×${record.config.cols}, ${record.config.ratio}, ${STYLE_PRESETS[record.config.style].label}${record.referenceCount > 0 ? `, ${record.referenceCount} reference${record.referenceCount > 1 ? 's' : ''}` : ''}`}
+                          className={`group relative aspect-square bg-zinc-950 border rounded overflow-hidden cursor-pointer ${openGenerationId === record.id ? 'border-indigo-500' : 'border-zinc-700 hover:border-zinc-500'}`}
+                        >
+                          <img src={record.thumbnail} alt={record.config.prompt} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                          <button
+                            onClick={(e) => { e.stopPropagation(); removeGeneration(record.id); }}
+                            className="absolute top-0 right-0 bg-zinc-900/80 text-zinc-400 hover:text-red-400 rounded-bl opacity-0 group-hover:opacity-100"
+                            title="Delete from gallery"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
         <div className="h-px bg-zinc-800" />
 
         {/* Upload */}
@@ -755,39 +2392,385 @@ const App: React.FC = () => {
 
         <div className="h-px bg-zinc-800" />
 
-        {/* Slicing Controls */}
-        <div className="space-y-4">
+        {/* Project */}
+        <div className="space-y-3">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Project</label>
+          <div className="flex gap-2">
+            <label className="flex-1 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs flex items-center justify-center gap-2 cursor-pointer transition-colors">
+              <FolderOpen className="w-3 h-3" /> Open
+              <input type="file" className="hidden" accept={`${PROJECT_EXTENSION},application/json`} onChange={handleOpenProject} />
+            </label>
+            <button
+              onClick={handleSaveProject}
+              disabled={!sourceImage}
+              className="flex-1 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              <Save className="w-3 h-3" /> Save
+            </button>
+          </div>
+          <p className="text-[10px] text-zinc-500">Work is autosaved in this browser and offered back on the next visit.</p>
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* Background Removal */}
+        <div className="space-y-3">
             <div className="flex items-center justify-between">
                 <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
-                    <Grid className="w-3 h-3" /> Grid Layout
+                    <Eraser className="w-3 h-3" /> Remove Background
                 </label>
-                <button onClick={() => resetDividers(grid.rows, grid.cols)} className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
-                    <RefreshCw className="w-3 h-3" /> Reset
+                <input
+                    type="checkbox"
+                    checked={chromaKey.enabled}
+                    disabled={!sourceImage}
+                    onChange={(e) => updateChromaKey({ enabled: e.target.checked })}
+                    className="accent-indigo-500"
+                />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+                {chromaKey.colors.map(color => (
+                    <span key={color} className="flex items-center gap-1 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 text-[10px] text-zinc-300 font-mono">
+                        <span className="w-3 h-3 rounded-sm border border-zinc-600" style={{ backgroundColor: color }} />
+                        {color}
+                        <button
+                            onClick={() => updateChromaKey({ colors: chromaKey.colors.filter(c => c !== color) })}
+                            className="text-zinc-500 hover:text-red-400"
+                        >
+                            <X className="w-2.5 h-2.5" />
+                        </button>
+                    </span>
+                ))}
+                {chromaKey.colors.length === 0 && (
+                    <span className="text-[10px] text-zinc-500">No key color yet</span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={() => setEditorTool(editorTool === 'eyedropper' ? 'select' : 'eyedropper')}
+                    disabled={!sourceImage}
+                    title="Click the sheet to pick a key color (Shift+click adds another)"
+                    className={`flex items-center justify-center gap-1 rounded py-1.5 text-xs transition-colors disabled:opacity-50 ${editorTool === 'eyedropper' ? 'bg-indigo-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600'}`}
+                >
+                    <Pipette className="w-3 h-3" /> Pick Color
+                </button>
+                <button
+                    onClick={autoDetectKeyColor}
+                    disabled={!sourceImage}
+                    className="flex items-center justify-center gap-1 bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors disabled:opacity-50"
+                >
+                    <ScanSearch className="w-3 h-3" /> From Corners
                 </button>
             </div>
-            
-            <div className="grid grid-cols-2 gap-3">
-                <div>
-                    <span className="text-xs text-zinc-400 block mb-1">Rows</span>
-                    <input 
-                        type="number" 
-                        min="1" max="16"
-                        value={grid.rows}
-                        onChange={(e) => handleGridCountChange('rows', parseInt(e.target.value) || 1)}
-                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+
+            {([
+                ['tolerance', 'Tolerance', 0, 255],
+                ['feather', 'Feather', 0, 128],
+            ] as ['tolerance' | 'feather', string, number, number][]).map(([key, label, min, max]) => (
+                <div key={key}>
+                    <div className="flex justify-between text-xs text-zinc-400 mb-1">
+                        <span>{label}</span>
+                        <span className="text-zinc-500">{chromaKey[key]}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={min} max={max}
+                        value={chromaKey[key]}
+                        onChange={(e) => updateChromaKey({ [key]: parseInt(e.target.value) || 0 })}
+                        className="w-full accent-indigo-500"
                     />
                 </div>
-                <div>
-                    <span className="text-xs text-zinc-400 block mb-1">Columns</span>
-                    <input 
-                        type="number" 
-                        min="1" max="16"
-                        value={grid.cols}
-                        onChange={(e) => handleGridCountChange('cols', parseInt(e.target.value) || 1)}
+            ))}
+
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={chromaKey.despill}
+                    onChange={(e) => updateChromaKey({ despill: e.target.checked })}
+                    className="accent-indigo-500"
+                />
+                Despill edges
+            </label>
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* Slicing Controls */}
+        <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-1 bg-zinc-950 border border-zinc-800 rounded p-1">
+                <button
+                    onClick={() => handleSlicingModeChange(SlicingMode.GRID)}
+                    className={`flex items-center justify-center gap-1 rounded py-1 text-[11px] transition-colors ${slicingMode === SlicingMode.GRID ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    <Grid className="w-3 h-3" /> Grid
+                </button>
+                <button
+                    onClick={() => handleSlicingModeChange(SlicingMode.CELL)}
+                    className={`flex items-center justify-center gap-1 rounded py-1 text-[11px] transition-colors ${slicingMode === SlicingMode.CELL ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    <LayoutGrid className="w-3 h-3" /> Cells
+                </button>
+                <button
+                    onClick={handleAutoDetect}
+                    disabled={!sourceImage}
+                    className={`flex items-center justify-center gap-1 rounded py-1 text-[11px] transition-colors disabled:opacity-50 ${slicingMode === SlicingMode.AUTO ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    <ScanSearch className="w-3 h-3" /> Auto
+                </button>
+                <button
+                    onClick={() => handleSlicingModeChange(SlicingMode.MANUAL)}
+                    disabled={!sourceImage}
+                    className={`flex items-center justify-center gap-1 rounded py-1 text-[11px] transition-colors disabled:opacity-50 ${slicingMode === SlicingMode.MANUAL ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    <SquareDashed className="w-3 h-3" /> Manual
+                </button>
+            </div>
+
+            {slicingMode === SlicingMode.GRID && (
+                <>
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                        <Grid className="w-3 h-3" /> Grid Layout
+                    </label>
+                    <button onClick={() => { recordHistory('Reset grid'); resetDividers(grid.rows, grid.cols); }} className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                        <RefreshCw className="w-3 h-3" /> Reset
+                    </button>
+                </div>
+            
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <span className="text-xs text-zinc-400 block mb-1">Rows</span>
+                        <input 
+                            type="number" 
+                            min="1" max={MAX_GRID_DIVISIONS}
+                            value={grid.rows}
+                            onChange={(e) => handleGridCountChange('rows', parseInt(e.target.value) || 1)}
+                            className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                        />
+                    </div>
+                    <div>
+                        <span className="text-xs text-zinc-400 block mb-1">Columns</span>
+                        <input 
+                            type="number" 
+                            min="1" max={MAX_GRID_DIVISIONS}
+                            value={grid.cols}
+                            onChange={(e) => handleGridCountChange('cols', parseInt(e.target.value) || 1)}
+                            className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                        />
+                    </div>
+                </div>
+                </>
+            )}
+
+            {slicingMode === SlicingMode.CELL && (
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                        <LayoutGrid className="w-3 h-3" /> Cell Size
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        {([
+                            ['cellWidth', 'Tile Width'],
+                            ['cellHeight', 'Tile Height'],
+                            ['margin', 'Margin'],
+                            ['spacing', 'Spacing'],
+                        ] as [keyof CellGridSpec, string][]).map(([key, label]) => (
+                            <div key={key}>
+                                <span className="text-xs text-zinc-400 block mb-1">{label}</span>
+                                <input
+                                    type="number"
+                                    min={key === 'cellWidth' || key === 'cellHeight' ? 1 : 0}
+                                    value={cellSpec[key]}
+                                    onChange={(e) => updateCellSpec(key, parseInt(e.target.value))}
+                                    className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    {cellGridWarning && (
+                        <div className="p-2 bg-amber-900/20 border border-amber-800 rounded text-[10px] text-amber-300 flex items-start gap-2">
+                            <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-px" />
+                            {cellGridWarning}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {slicingMode === SlicingMode.AUTO && (
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                            <ScanSearch className="w-3 h-3" /> Detection
+                        </label>
+                        <button onClick={handleAutoDetect} className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                            <RefreshCw className="w-3 h-3" /> Re-detect
+                        </button>
+                    </div>
+                    {([
+                        ['tolerance', 'Color Tolerance', 0, 200],
+                        ['mergeDistance', 'Merge Distance', 0, 64],
+                        ['minArea', 'Min Area (px)', 0, 2000],
+                        ['padding', 'Padding', 0, 32],
+                    ] as [keyof DetectionOptions, string, number, number][]).map(([key, label, min, max]) => (
+                        <div key={key}>
+                            <div className="flex justify-between text-xs text-zinc-400 mb-1">
+                                <span>{label}</span>
+                                <span className="text-zinc-500">{detectOptions[key]}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={min} max={max}
+                                value={detectOptions[key]}
+                                onChange={(e) => updateDetectOption(key, parseInt(e.target.value) || 0)}
+                                className="w-full accent-indigo-500"
+                            />
+                        </div>
+                    ))}
+                    {detectionInfo && (
+                        <p className="text-[10px] text-zinc-500">{detectionInfo}</p>
+                    )}
+                </div>
+            )}
+
+            {slicingMode === SlicingMode.MANUAL && (
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                            <SquareDashed className="w-3 h-3" /> Free-form Frames
+                        </label>
+                        <button
+                            onClick={() => { recordHistory('Clear frames'); setFrames([]); setSelectedFrameIds([]); }}
+                            disabled={frames.length === 0}
+                            className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50"
+                        >
+                            <Trash2 className="w-3 h-3" /> Clear All
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-zinc-500 leading-relaxed">
+                        Drag on empty space to draw a frame. Drag a frame to move it, or its handles to resize.
+                        Shift-drag to box-select, Delete to remove. Frames from Grid or Auto are kept as a starting point.
+                    </p>
+                </div>
+            )}
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* Animation Clips */}
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                    <Film className="w-3 h-3" /> Animations
+                </label>
+                <button
+                    onClick={createClipFromSelection}
+                    disabled={frames.length === 0}
+                    title={selectedFrameIds.length > 0 ? 'New clip from selected frames' : 'New clip from current sequence'}
+                    className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50"
+                >
+                    <Plus className="w-3 h-3" /> New Clip
+                </button>
+            </div>
+
+            <div className="space-y-1">
+                <button
+                    onClick={() => selectClip(null)}
+                    className={`w-full flex items-center justify-between rounded px-2 py-1.5 text-xs transition-colors ${activeClip === null ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                >
+                    <span>All active frames</span>
+                    <span className="text-zinc-500">{getDefaultSequence(frames).length}</span>
+                </button>
+                {clips.map(clip => (
+                    <div
+                        key={clip.id}
+                        onClick={() => selectClip(clip.id)}
+                        className={`w-full flex items-center justify-between rounded px-2 py-1.5 text-xs cursor-pointer transition-colors ${activeClipId === clip.id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                    >
+                        <span className="truncate">{clip.name}</span>
+                        <span className="flex items-center gap-2">
+                            {clip.mirrored && <span title="Mirrored"><FlipHorizontal className="w-3 h-3 text-zinc-500" /></span>}
+                            <span className="text-zinc-500">{clip.frameIds.length}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); deleteClip(clip.id); }}
+                                className="text-zinc-500 hover:text-red-400"
+                                title="Delete clip"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {activeClip && (
+                <div className="bg-zinc-800/40 rounded p-3 space-y-3 border border-zinc-700/50">
+                    <input
+                        type="text"
+                        value={activeClip.name}
+                        onChange={(e) => {
+                            recordHistory('Rename clip', `clip-name-${activeClip.id}`);
+                            updateClip(activeClip.id, { name: e.target.value });
+                        }}
                         className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
                     />
+                    <div className="grid grid-cols-2 gap-3 items-center">
+                        <div>
+                            <span className="text-xs text-zinc-400 block mb-1">FPS</span>
+                            <input
+                                type="number"
+                                min="1"
+                                value={activeClip.fps}
+                                onChange={(e) => handleFpsChange(parseInt(e.target.value) || 8)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-zinc-400 mt-4 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={activeClip.loop}
+                                onChange={(e) => {
+                                    recordHistory('Edit clip');
+                                    updateClip(activeClip.id, { loop: e.target.checked });
+                                }}
+                                className="accent-indigo-500"
+                            />
+                            Loop
+                        </label>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer" title="Play and export every frame of this clip mirrored horizontally">
+                        <input
+                            type="checkbox"
+                            checked={!!activeClip.mirrored}
+                            onChange={(e) => {
+                                recordHistory('Edit clip');
+                                updateClip(activeClip.id, { mirrored: e.target.checked || undefined });
+                            }}
+                            className="accent-indigo-500"
+                        />
+                        Mirrored
+                    </label>
+                    <div className="flex flex-wrap gap-1">
+                        {activeClip.frameIds.map((id, index) => (
+                            <span key={index} className="flex items-center gap-1 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 text-[10px] text-zinc-300">
+                                #{id}
+                                <button onClick={() => removeClipEntry(index)} className="text-zinc-500 hover:text-red-400">
+                                    <X className="w-2.5 h-2.5" />
+                                </button>
+                            </span>
+                        ))}
+                        {activeClip.frameIds.length === 0 && (
+                            <span className="text-[10px] text-zinc-500">No frames yet</span>
+                        )}
+                    </div>
+                    <button
+                        onClick={appendSelectionToClip}
+                        disabled={selectedFrameIds.length === 0}
+                        className="w-full flex items-center justify-center gap-1 bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors disabled:opacity-50"
+                    >
+                        <Plus className="w-3 h-3" /> Add Selected Frames
+                    </button>
                 </div>
-            </div>
+            )}
         </div>
 
         {/* Selected Frames Adjustment */}
@@ -815,12 +2798,66 @@ const App: React.FC = () => {
                     </button>
                 </div>
                 
-                <button 
-                     onClick={toggleFrameFlip}
-                     className="w-full flex items-center justify-center gap-1 bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors"
-                >
-                    <FlipHorizontal className="w-3 h-3" /> Flip Horizontal
-                </button>
+                {/* Transform */}
+                <div className="grid grid-cols-4 gap-1">
+                    <button onClick={() => toggleFrameFlip('h')} title="Flip horizontal" className="flex items-center justify-center bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 transition-colors">
+                        <FlipHorizontal className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => toggleFrameFlip('v')} title="Flip vertical" className="flex items-center justify-center bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 transition-colors">
+                        <FlipVertical className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => rotateFrames(-1)} title="Rotate 90° counter-clockwise" className="flex items-center justify-center bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 transition-colors">
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => rotateFrames(1)} title="Rotate 90° clockwise" className="flex items-center justify-center bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 transition-colors">
+                        <RotateCw className="w-3 h-3" />
+                    </button>
+                </div>
+                <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-zinc-500 uppercase font-semibold">Frame Scale</span>
+                    <select
+                        value={focusFrame?.scale || 1}
+                        onChange={(e) => setFrameScale(parseInt(e.target.value))}
+                        className="bg-zinc-950 border border-zinc-700 rounded px-2 py-0.5 text-xs"
+                    >
+                        {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}×</option>)}
+                    </select>
+                </div>
+
+                {slicingMode === SlicingMode.MANUAL && (
+                    <button
+                         onClick={deleteSelectedFrames}
+                         className="w-full flex items-center justify-center gap-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 border border-red-800/50 rounded py-1.5 text-xs transition-colors"
+                    >
+                        <Trash2 className="w-3 h-3" /> Delete Frame{selectedFrameIds.length > 1 ? 's' : ''}
+                    </button>
+                )}
+
+                {/* Frame Duration */}
+                <div className="space-y-2">
+                    <div className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1">
+                        <Clock className="w-3 h-3" /> Duration (ms)
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            min="1"
+                            placeholder={`${Math.round(1000 / playbackFps)} (fps)`}
+                            value={selectedDuration ?? ''}
+                            onChange={(e) => {
+                                const ms = parseInt(e.target.value);
+                                setFrameDuration(ms > 0 ? ms : undefined);
+                            }}
+                            className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                        />
+                        <button
+                            onClick={() => setFrameDuration(undefined)}
+                            className="px-2 bg-zinc-700 hover:bg-zinc-600 rounded text-xs"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                </div>
 
                 {/* Fine Tune Offset */}
                 <div className="space-y-2">
@@ -838,8 +2875,50 @@ const App: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Auto Align */}
+                <div className="space-y-2">
+                    <div className="text-[10px] text-zinc-500 uppercase font-semibold">Auto-align Content</div>
+                    <select
+                        value={alignOptions.mode}
+                        onChange={(e) => setAlignOptions(prev => ({ ...prev, mode: e.target.value as AlignOptions['mode'] }))}
+                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                    >
+                        <option value="baseline">Bottom baseline</option>
+                        <option value="center">Center</option>
+                        <option value="anchor">Anchor point</option>
+                    </select>
+                    {alignOptions.mode === 'anchor' && (
+                        <div className="grid grid-cols-3 gap-1 w-20 mx-auto">
+                            {[0, 0.5, 1].map(ay => [0, 0.5, 1].map(ax => (
+                                <button
+                                    key={`${ax}-${ay}`}
+                                    onClick={() => setAlignOptions(prev => ({ ...prev, anchorX: ax, anchorY: ay }))}
+                                    className={`h-5 rounded border ${alignOptions.anchorX === ax && alignOptions.anchorY === ay ? 'bg-indigo-600 border-indigo-400' : 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700'}`}
+                                />
+                            )))}
+                        </div>
+                    )}
+                    <div className="flex items-center gap-4 text-xs text-zinc-400">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={alignOptions.horizontal} onChange={(e) => setAlignOptions(prev => ({ ...prev, horizontal: e.target.checked }))} className="accent-indigo-500" />
+                            Horizontal
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={alignOptions.vertical} onChange={(e) => setAlignOptions(prev => ({ ...prev, vertical: e.target.checked }))} className="accent-indigo-500" />
+                            Vertical
+                        </label>
+                    </div>
+                    <button
+                        onClick={autoAlignSelected}
+                        disabled={!alignOptions.horizontal && !alignOptions.vertical}
+                        className="w-full flex items-center justify-center gap-2 bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs disabled:opacity-50"
+                    >
+                        <AlignCenterVertical className="w-3 h-3" /> Align {selectedFrameIds.length} Frame{selectedFrameIds.length === 1 ? '' : 's'}
+                    </button>
+                </div>
+
                 {/* Sequence Ordering */}
-                {selectedFrameIds.length === 1 && frames.find(f => f.id === selectedFrameIds[0])?.active && (
+                {selectedFrameIds.length === 1 && (activeClip ? activeClip.frameIds.includes(selectedFrameIds[0]) : frames.find(f => f.id === selectedFrameIds[0])?.active) && (
                     <div className="space-y-2 pt-2 border-t border-zinc-700/50">
                         <div className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1">
                             <Layers className="w-3 h-3"/> Reorder Sequence
@@ -863,6 +2942,333 @@ const App: React.FC = () => {
             </div>
         )}
 
+        <div className="h-px bg-zinc-800" />
+
+        {/* Regenerate Frame */}
+        <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                <Wand2 className="w-3 h-3" /> Regenerate Frame
+            </label>
+            {frameRegen ? (
+                <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                        {([['Before', frameRegen.before], ['After', frameRegen.after]] as const).map(([label, src]) => (
+                            <div key={label} className="space-y-1">
+                                <span className="text-[10px] text-zinc-500 uppercase font-semibold">{label}</span>
+                                <div className="aspect-square bg-zinc-950 border border-zinc-700 rounded overflow-hidden">
+                                    <img src={src} alt={label} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-zinc-500">Frame #{frameRegen.frameId}. Accepting writes the result into the sheet.</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        <button onClick={acceptFrameRegen} className="bg-indigo-600 hover:bg-indigo-500 rounded py-1.5 text-xs font-medium transition-colors">Accept</button>
+                        <button
+                            onClick={handleRegenerateFrame}
+                            disabled={isRegenerating || focusFrame?.id !== frameRegen.frameId || !capabilities.edit}
+                            className="bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors disabled:opacity-50"
+                        >
+                            Retry
+                        </button>
+                        <button onClick={() => setFrameRegen(null)} className="bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors">Reject</button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <input
+                        type="text"
+                        value={regenInstructions}
+                        onChange={(e) => setRegenInstructions(e.target.value)}
+                        placeholder="What's wrong? (optional, e.g. extra arm)"
+                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                    />
+                    <button
+                        onClick={handleRegenerateFrame}
+                        disabled={!focusFrame || isRegenerating || !capabilities.edit}
+                        title={!capabilities.edit ? "The configured model can't edit images" : focusFrame ? `Redraw frame #${focusFrame.id} using its neighbours as context` : 'Select a frame first'}
+                        className="w-full flex items-center justify-center gap-2 bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs transition-colors disabled:opacity-50"
+                    >
+                        {isRegenerating ? <div className="animate-spin rounded-full h-3 w-3 border-2 border-white border-t-transparent"/> : <RefreshCw className="w-3 h-3" />}
+                        {focusFrame ? `Regenerate Frame #${focusFrame.id}` : 'Regenerate Frame'}
+                    </button>
+                </>
+            )}
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* Pivot & Collision Boxes */}
+        <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                <Target className="w-3 h-3" /> Pivot &amp; Collision
+            </label>
+            <div className="grid grid-cols-3 gap-1">
+                {([['pivot', 'Pivot'], ['hitbox', 'Hitbox'], ['hurtbox', 'Hurtbox']] as const).map(([tool, label]) => (
+                    <button
+                        key={tool}
+                        onClick={() => setEditorTool(editorTool === tool ? 'select' : tool)}
+                        disabled={frames.length === 0}
+                        className={`py-1.5 rounded text-xs transition-colors disabled:opacity-50 ${editorTool === tool ? 'bg-indigo-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {editorTool !== 'select' && editorTool !== 'eyedropper' && (
+                <p className="text-[10px] text-zinc-500">
+                    {editorTool === 'pivot' ? 'Click or drag inside a frame to place its pivot (applies to the whole selection).' : `Drag inside a frame to draw a ${editorTool}.`}
+                </p>
+            )}
+            {focusFrame && focusPivot && (
+                <div className="space-y-3">
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-500 uppercase font-semibold">Pivot (px){focusFrame.pivot ? '' : ' · default'}</span>
+                            {selectedFrameIds.some(id => frames.find(f => f.id === id)?.pivot) && (
+                                <button onClick={resetSelectedPivot} className="text-[10px] text-zinc-400 hover:text-white">Reset</button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['x', 'y'] as const).map(axis => (
+                                <input
+                                    key={axis}
+                                    type="number"
+                                    value={Math.round(focusPivot[axis])}
+                                    onChange={(e) => setSelectedPivot(axis, parseInt(e.target.value) || 0)}
+                                    className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                                    title={axis.toUpperCase()}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                    {(focusFrame.boxes || []).length > 0 && (
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-zinc-500 uppercase font-semibold">Boxes · Frame {focusFrame.id}</span>
+                            {(focusFrame.boxes || []).map((box, index) => (
+                                <div key={index} className="flex items-center gap-1">
+                                    <span className="w-2 h-2 rounded-sm flex-shrink-0" style={{ backgroundColor: BOX_COLORS[box.kind] }} />
+                                    <input
+                                        value={box.name}
+                                        onChange={(e) => updateFrameBox(focusFrame.id, index, { name: e.target.value })}
+                                        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-2 py-0.5 text-xs"
+                                    />
+                                    <select
+                                        value={box.kind}
+                                        onChange={(e) => updateFrameBox(focusFrame.id, index, { kind: e.target.value as FrameBoxKind })}
+                                        className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-xs"
+                                    >
+                                        <option value="hitbox">Hit</option>
+                                        <option value="hurtbox">Hurt</option>
+                                    </select>
+                                    <span className="text-[10px] text-zinc-500 font-mono">{box.width}×{box.height}</span>
+                                    <button onClick={() => deleteFrameBox(focusFrame.id, index)} className="p-0.5 text-zinc-500 hover:text-red-400" title="Delete box">
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {selectedFrameIds.length > 1 && (
+                        <button
+                            onClick={copyBoxesToSelection}
+                            className="w-full bg-zinc-700 hover:bg-zinc-600 rounded py-1.5 text-xs"
+                        >
+                            Copy Frame {focusFrame.id} Boxes to Selection
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* History */}
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                    <History className="w-3 h-3" /> History
+                </label>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={undo}
+                        disabled={history.past.length === 0}
+                        title={`Undo (${shortcuts.undo.map(formatBinding).join(' / ')})`}
+                        className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                    >
+                        <Undo2 className="w-3 h-3" />
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={history.future.length === 0}
+                        title={`Redo (${shortcuts.redo.map(formatBinding).join(' / ')})`}
+                        className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                    >
+                        <Redo2 className="w-3 h-3" />
+                    </button>
+                </div>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+                {[{ label: 'Start' }, ...history.past, ...history.future].map((entry, index) => {
+                    const isCurrent = index === history.past.length;
+                    const isUndone = index > history.past.length;
+                    return (
+                        <button
+                            key={index}
+                            onClick={() => jumpToHistory(index)}
+                            className={`w-full text-left rounded px-2 py-1 transition-colors ${isCurrent ? 'bg-zinc-700 text-white' : isUndone ? 'text-zinc-600 hover:bg-zinc-800' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                        >
+                            {entry.label}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        <div className="h-px bg-zinc-800" />
+
+        {/* Export Settings */}
+        <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                <Settings2 className="w-3 h-3" /> Export Settings
+            </label>
+            <div className="flex items-center justify-between text-xs text-zinc-400">
+                <span title="Nearest-neighbour upscale for every export, on top of per-frame scale">Export Scale</span>
+                <select
+                    value={exportScale}
+                    onChange={(e) => setExportScale(parseInt(e.target.value))}
+                    className="bg-zinc-950 border border-zinc-700 rounded px-2 py-0.5 text-xs"
+                >
+                    {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}×</option>)}
+                </select>
+            </div>
+            <div className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1">
+                <Film className="w-3 h-3" /> GIF
+            </div>
+            <div>
+                <div className="flex justify-between text-xs text-zinc-400 mb-1">
+                    <span>Palette Size</span>
+                    <span className="text-zinc-500">{gifOptions.paletteSize}</span>
+                </div>
+                <input
+                    type="range"
+                    min="2" max="256"
+                    value={gifOptions.paletteSize}
+                    onChange={(e) => setGifOptions(prev => ({ ...prev, paletteSize: parseInt(e.target.value) || 256 }))}
+                    className="w-full accent-indigo-500"
+                />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <span className="text-xs text-zinc-400 block mb-1">Loop Count</span>
+                    <input
+                        type="number"
+                        min="0"
+                        title="0 = loop forever"
+                        value={gifOptions.repeat}
+                        onChange={(e) => setGifOptions(prev => ({ ...prev, repeat: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                    />
+                </div>
+                <div>
+                    <span className="text-xs text-zinc-400 block mb-1">Transparent Color</span>
+                    <div className="flex items-center gap-2 h-[30px]">
+                        <input
+                            type="checkbox"
+                            checked={gifOptions.transparentColor !== null}
+                            onChange={(e) => setGifOptions(prev => ({ ...prev, transparentColor: e.target.checked ? '#00ff00' : null }))}
+                            className="accent-indigo-500"
+                        />
+                        <input
+                            type="color"
+                            value={gifOptions.transparentColor ?? '#00ff00'}
+                            disabled={gifOptions.transparentColor === null}
+                            onChange={(e) => setGifOptions(prev => ({ ...prev, transparentColor: e.target.value }))}
+                            className="w-full h-6 bg-transparent disabled:opacity-30"
+                        />
+                    </div>
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={gifOptions.dither}
+                    onChange={(e) => setGifOptions(prev => ({ ...prev, dither: e.target.checked }))}
+                    className="accent-indigo-500"
+                />
+                Dithering (Floyd-Steinberg)
+            </label>
+
+            <div className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1 pt-1">
+                <Archive className="w-3 h-3" /> Frames ZIP
+            </div>
+            <div>
+                <span className="text-xs text-zinc-400 block mb-1">File Name Pattern</span>
+                <input
+                    type="text"
+                    value={zipOptions.pattern}
+                    onChange={(e) => setZipOptions(prev => ({ ...prev, pattern: e.target.value }))}
+                    className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm font-mono"
+                />
+                <span className="text-[10px] text-zinc-500">Tokens: {'{clip} {index} {id} {row} {col}'}</span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={zipOptions.includeManifest}
+                    onChange={(e) => setZipOptions(prev => ({ ...prev, includeManifest: e.target.checked }))}
+                    className="accent-indigo-500"
+                />
+                Include manifest.json
+            </label>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={zipOptions.allClips}
+                    disabled={clips.length === 0}
+                    onChange={(e) => setZipOptions(prev => ({ ...prev, allClips: e.target.checked }))}
+                    className="accent-indigo-500"
+                />
+                All clips in one ZIP
+            </label>
+
+            <div className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1 pt-1">
+                <Package className="w-3 h-3" /> Atlas
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <span className="text-xs text-zinc-400 block mb-1">Padding</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={atlasOptions.padding}
+                        onChange={(e) => setAtlasOptions(prev => ({ ...prev, padding: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                    />
+                </div>
+                <div>
+                    <span className="text-xs text-zinc-400 block mb-1">JSON Format</span>
+                    <select
+                        value={atlasOptions.format}
+                        onChange={(e) => setAtlasOptions(prev => ({ ...prev, format: e.target.value as AtlasOptions['format'] }))}
+                        className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                    >
+                        <option value="hash">JSON Hash</option>
+                        <option value="array">JSON Array</option>
+                    </select>
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={atlasOptions.powerOfTwo}
+                    onChange={(e) => setAtlasOptions(prev => ({ ...prev, powerOfTwo: e.target.checked }))}
+                    className="accent-indigo-500"
+                />
+                Power-of-two size
+            </label>
+        </div>
+
       </aside>
 
       {/* MAIN CONTENT AREA */}
@@ -871,13 +3277,11 @@ const App: React.FC = () => {
           {/* Top Bar - Preview & Export */}
           <header className="h-16 border-b border-zinc-800 bg-zinc-900/30 flex items-center justify-between px-6">
                <div className="flex items-center gap-4">
-                  {/* Animation Preview Small */}
-                  <div className="relative w-12 h-12 bg-zinc-800 rounded overflow-hidden border border-zinc-700">
-                     <canvas ref={previewCanvasRef} className="w-full h-full object-contain" />
-                     {activeFrames.length === 0 && <div className="absolute inset-0 flex items-center justify-center text-zinc-600"><EyeOff className="w-4 h-4"/></div>}
-                  </div>
                   <div className="flex items-center gap-2 bg-zinc-800 rounded-lg p-1">
-                      <button onClick={() => setIsPlaying(!isPlaying)} className="p-1.5 hover:bg-zinc-700 rounded text-white">
+                      <button
+                        onClick={togglePlayback}
+                        className="p-1.5 hover:bg-zinc-700 rounded text-white"
+                      >
                           {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                       </button>
                       <div className="h-4 w-px bg-zinc-700" />
@@ -886,60 +3290,389 @@ const App: React.FC = () => {
                          <input 
                             type="number" 
                             className="w-10 bg-transparent text-xs text-center focus:outline-none"
-                            value={fps}
-                            onChange={(e) => setFps(parseInt(e.target.value) || 8)}
+                            value={playbackFps}
+                            onChange={(e) => handleFpsChange(parseInt(e.target.value) || 8)}
                          />
                       </div>
+                      <div className="h-4 w-px bg-zinc-700" />
+                      <div className="flex items-center gap-1 px-1 text-xs text-zinc-400" title="Total animation length">
+                         <Clock className="w-3 h-3" />
+                         {(sequenceDuration / 1000).toFixed(2)}s
+                      </div>
                   </div>
+                  <button
+                    onClick={() => setShowShortcutHelp(true)}
+                    className="p-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-zinc-400 hover:text-white"
+                    title={`Keyboard shortcuts (${shortcuts.showHelp.map(formatBinding).join(' / ') || 'unbound'})`}
+                  >
+                      <Keyboard className="w-4 h-4" />
+                  </button>
                </div>
 
                <div className="flex items-center gap-2">
+                   {exportProgress && (
+                       <div className="flex items-center gap-2 text-xs text-zinc-400 mr-2">
+                           <span>{exportProgress.label} {Math.round(exportProgress.value * 100)}%</span>
+                           <div className="w-24 h-1.5 bg-zinc-800 rounded overflow-hidden">
+                               <div className="h-full bg-indigo-500 transition-all" style={{ width: `${exportProgress.value * 100}%` }} />
+                           </div>
+                       </div>
+                   )}
+                   <div className="flex items-center">
+                       <button 
+                        onClick={handleExportAnimation}
+                        disabled={isExporting || !sourceImage || activeFrames.length === 0}
+                        className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white pl-4 pr-3 py-2 rounded-l text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                       >
+                         {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Download className="w-4 h-4" />}
+                         Export {ANIMATION_FORMATS[animationFormat].label}
+                       </button>
+                       <select
+                        value={animationFormat}
+                        onChange={(e) => setAnimationFormat(e.target.value as AnimationFormat)}
+                        disabled={isExporting}
+                        title="Animation format"
+                        className="bg-indigo-700 hover:bg-indigo-600 text-white text-sm py-2 px-1 rounded-r border-l border-indigo-500 focus:outline-none disabled:opacity-50"
+                       >
+                         {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map(format => (
+                             <option key={format} value={format}>{ANIMATION_FORMATS[format].label}</option>
+                         ))}
+                       </select>
+                   </div>
+
                    <button 
-                    onClick={handleExportGif}
+                    onClick={handleExportPic}
                     disabled={isExporting || !sourceImage || activeFrames.length === 0}
                     className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                    >
-                     {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Download className="w-4 h-4" />}
-                     Export GIF
+                     {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Archive className="w-4 h-4" />}
+                     Export ZIP
                    </button>
 
                    <button 
-                    onClick={handleExportPic}
-                    disabled={isExporting || !sourceImage || activeFrames.length === 0}
+                    onClick={handleExportAtlas}
+                    disabled={isExporting || !sourceImage || frames.length === 0}
                     className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                    >
-                     {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Download className="w-4 h-4" />}
-                     Export Pic
+                     {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Package className="w-4 h-4" />}
+                     Export Atlas
                    </button>
+
+                   {clips.length > 0 && (
+                       <button 
+                        onClick={handleExportAllClips}
+                        disabled={isExporting || !sourceImage}
+                        className="flex items-center gap-2 bg-zinc-700 hover:bg-zinc-600 text-white px-4 py-2 rounded text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                       >
+                         {isExporting ? <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"/> : <Film className="w-4 h-4" />}
+                         Export All Clips
+                       </button>
+                   )}
                </div>
           </header>
 
-          {/* Canvas Area */}
-          <div className="flex-1 overflow-auto bg-[radial-gradient(#1f2937_1px,transparent_1px)] [background-size:16px_16px] p-8 flex items-center justify-center relative">
-             {sourceImage ? (
-                <div 
-                    ref={containerRef}
-                    className="relative shadow-2xl ring-1 ring-zinc-800 select-none"
-                    style={{ cursor: getCursor() }}
-                >
-                    <canvas 
-                        ref={canvasRef}
-                        onMouseDown={handleMouseDown}
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
-                        onMouseLeave={handleMouseLeave}
-                        className="max-w-full max-h-[80vh] object-contain block"
-                    />
-                </div>
-             ) : (
-                <div className="text-center text-zinc-500">
-                    <Grid className="w-12 h-12 mx-auto mb-3 opacity-20" />
-                    <p>Select an image or generate one to start slicing</p>
-                </div>
-             )}
+          <div className="flex-1 flex min-h-0">
+            {/* Canvas Area */}
+            <div className="flex-1 min-w-0 overflow-hidden bg-[radial-gradient(#1f2937_1px,transparent_1px)] [background-size:16px_16px] flex items-center justify-center relative">
+               {sourceImage ? (
+                  <div 
+                      ref={containerRef}
+                      className="absolute inset-0 select-none"
+                      style={{ cursor: getCursor() }}
+                  >
+                      <canvas 
+                          ref={canvasRef}
+                          onMouseDown={handleMouseDown}
+                          onMouseMove={handleMouseMove}
+                          onMouseUp={handleMouseUp}
+                          onMouseEnter={() => { pointerOverCanvasRef.current = true; }}
+                          onMouseLeave={handleMouseLeave}
+                          onAuxClick={(e) => e.preventDefault()}
+                          className="block w-full h-full"
+                      />
+
+                      {/* Zoom Controls */}
+                      <div className="absolute bottom-3 right-3 flex items-center gap-1 bg-zinc-900/90 border border-zinc-700 rounded-lg p-1 shadow-lg">
+                          <button onClick={() => stepZoom(-1)} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-300" title="Zoom out">
+                              <ZoomOut className="w-4 h-4" />
+                          </button>
+                          <button onClick={resetZoom} className="px-1 text-xs text-zinc-300 font-mono w-14 text-center hover:bg-zinc-700 rounded py-1" title="Actual size (100%)">
+                              {Math.round(view.zoom * 100)}%
+                          </button>
+                          <button onClick={() => stepZoom(1)} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-300" title="Zoom in">
+                              <ZoomIn className="w-4 h-4" />
+                          </button>
+                          <button onClick={fitToView} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-300" title="Fit to view">
+                              <Maximize className="w-4 h-4" />
+                          </button>
+                          <div className="h-4 w-px bg-zinc-700" />
+                          <button
+                              onClick={() => setShowPixelGrid(!showPixelGrid)}
+                              className={`p-1.5 rounded ${showPixelGrid ? 'text-indigo-300 bg-indigo-900/40' : 'text-zinc-400 hover:bg-zinc-700'}`}
+                              title={`Pixel grid (shown from ${PIXEL_GRID_MIN_ZOOM * 100}%)`}
+                          >
+                              <Grid3x3 className="w-4 h-4" />
+                          </button>
+                      </div>
+                  </div>
+               ) : (
+                  <div className="text-center text-zinc-500">
+                      <Grid className="w-12 h-12 mx-auto mb-3 opacity-20" />
+                      <p>Select an image or generate one to start slicing</p>
+                  </div>
+               )}
+            </div>
+
+            {/* Preview Panel */}
+            <aside className="w-72 flex-shrink-0 border-l border-zinc-800 bg-zinc-900/50 p-4 flex flex-col gap-4 overflow-y-auto">
+               <div className="flex items-center justify-between">
+                   <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                       <Play className="w-3 h-3" /> Preview
+                   </label>
+                   {activeFrames.length > 0 && (
+                       <div className="flex items-center gap-1">
+                           <button onClick={() => stepPreview(-1)} className="p-1 hover:bg-zinc-800 rounded text-zinc-400" title="Previous frame">
+                               <ChevronLeft className="w-3 h-3" />
+                           </button>
+                           <span className="text-[10px] text-zinc-500 font-mono w-12 text-center">
+                               {(previewFrameIndex % activeFrames.length) + 1}/{activeFrames.length}
+                           </span>
+                           <button onClick={() => stepPreview(1)} className="p-1 hover:bg-zinc-800 rounded text-zinc-400" title="Next frame">
+                               <ChevronRight className="w-3 h-3" />
+                           </button>
+                       </div>
+                   )}
+               </div>
+               <div className="relative h-64 bg-zinc-950 rounded border border-zinc-800 flex items-center justify-center overflow-hidden bg-[conic-gradient(#27272a_25%,#18181b_0_50%,#27272a_0_75%,#18181b_0)] [background-size:16px_16px]">
+                   <canvas ref={previewCanvasRef} className="max-w-full max-h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                   {activeFrames.length === 0 && <div className="absolute inset-0 flex items-center justify-center text-zinc-600"><EyeOff className="w-6 h-6"/></div>}
+               </div>
+
+               {/* Onion Skin */}
+               <div className="space-y-3">
+                   <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                       <input
+                           type="checkbox"
+                           checked={onionSkin.enabled}
+                           onChange={(e) => setOnionSkin(prev => ({ ...prev, enabled: e.target.checked }))}
+                           className="accent-indigo-500"
+                       />
+                       <Layers className="w-3 h-3" /> Onion skin
+                   </label>
+                   {onionSkin.enabled && (
+                       <div className="space-y-3 pl-5">
+                           <div className="grid grid-cols-2 gap-2">
+                               {(['before', 'after'] as const).map(side => (
+                                   <div key={side} className="space-y-1">
+                                       <span className="text-[10px] text-zinc-500 uppercase font-semibold">{side === 'before' ? 'Previous' : 'Next'}</span>
+                                       <div className="flex items-center gap-1">
+                                           <input
+                                               type="number"
+                                               min={0}
+                                               max={5}
+                                               value={onionSkin[side]}
+                                               onChange={(e) => setOnionSkin(prev => ({ ...prev, [side]: Math.max(0, Math.min(5, parseInt(e.target.value) || 0)) }))}
+                                               className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm"
+                                           />
+                                           <input
+                                               type="color"
+                                               value={side === 'before' ? onionSkin.tintBefore : onionSkin.tintAfter}
+                                               onChange={(e) => setOnionSkin(prev => side === 'before' ? { ...prev, tintBefore: e.target.value } : { ...prev, tintAfter: e.target.value })}
+                                               className="w-7 h-7 bg-transparent border border-zinc-700 rounded cursor-pointer flex-shrink-0"
+                                               title="Tint"
+                                           />
+                                       </div>
+                                   </div>
+                               ))}
+                           </div>
+                           <div className="space-y-1">
+                               <div className="flex justify-between text-[10px] text-zinc-500 uppercase font-semibold">
+                                   <span>Opacity</span>
+                                   <span>{Math.round(onionSkin.opacity * 100)}%</span>
+                               </div>
+                               <input
+                                   type="range"
+                                   min={0.05}
+                                   max={1}
+                                   step={0.05}
+                                   value={onionSkin.opacity}
+                                   onChange={(e) => setOnionSkin(prev => ({ ...prev, opacity: parseFloat(e.target.value) }))}
+                                   className="w-full accent-indigo-500"
+                               />
+                           </div>
+                           <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                               <input
+                                   type="checkbox"
+                                   checked={onionSkin.wrap}
+                                   onChange={(e) => setOnionSkin(prev => ({ ...prev, wrap: e.target.checked }))}
+                                   className="accent-indigo-500"
+                               />
+                               Wrap around loop
+                           </label>
+                       </div>
+                   )}
+               </div>
+
+               <div className="h-px bg-zinc-800" />
+
+               {/* Alignment Guides */}
+               <div className="space-y-3">
+                   <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                       <input
+                           type="checkbox"
+                           checked={previewGuides.enabled}
+                           onChange={(e) => setPreviewGuides(prev => ({ ...prev, enabled: e.target.checked }))}
+                           className="accent-indigo-500"
+                       />
+                       <Crosshair className="w-3 h-3" /> Pivot / baseline guide
+                   </label>
+                   {previewGuides.enabled && (
+                       <div className="space-y-3 pl-5">
+                           {([['pivotX', 'Pivot X'], ['baselineY', 'Baseline Y']] as const).map(([key, label]) => (
+                               <div key={key} className="space-y-1">
+                                   <div className="flex justify-between text-[10px] text-zinc-500 uppercase font-semibold">
+                                       <span>{label}</span>
+                                       <span>{Math.round(previewGuides[key] * 100)}%</span>
+                                   </div>
+                                   <input
+                                       type="range"
+                                       min={0}
+                                       max={1}
+                                       step={0.01}
+                                       value={previewGuides[key]}
+                                       onChange={(e) => setPreviewGuides(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                                       className="w-full accent-indigo-500"
+                                   />
+                               </div>
+                           ))}
+                       </div>
+                   )}
+                   <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                       <input
+                           type="checkbox"
+                           checked={showFrameMeta}
+                           onChange={(e) => setShowFrameMeta(e.target.checked)}
+                           className="accent-indigo-500"
+                       />
+                       <Target className="w-3 h-3" /> Frame pivot &amp; boxes
+                   </label>
+               </div>
+            </aside>
           </div>
 
+          {/* Timeline */}
+          {activeFrames.length > 0 && (
+              <div className="h-32 flex-shrink-0 border-t border-zinc-800 bg-zinc-900/50 flex flex-col">
+                  <div className="flex items-center justify-between px-4 py-1.5 border-b border-zinc-800/60">
+                      <span className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-2">
+                          <Film className="w-3 h-3" /> Timeline · {activeClip ? activeClip.name : 'All Active Frames'}
+                      </span>
+                      <div className="flex items-center gap-1">
+                          <span className="text-[10px] text-zinc-500 mr-2">{timelineSelection.length > 0 ? `${timelineSelection.length} selected · ` : ''}Drag to reorder</span>
+                          <button
+                              onClick={duplicateTimelineSelection}
+                              disabled={timelineSelection.length === 0}
+                              className="flex items-center gap-1 px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-xs disabled:opacity-50"
+                              title="Duplicate selected frames"
+                          >
+                              <Copy className="w-3 h-3" /> Duplicate
+                          </button>
+                          <button
+                              onClick={reverseTimelineRange}
+                              disabled={activeFrames.length < 2}
+                              className="flex items-center gap-1 px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-xs disabled:opacity-50"
+                              title={timelineSelection.length > 1 ? 'Reverse the selected range' : 'Reverse the whole sequence'}
+                          >
+                              <ArrowLeftRight className="w-3 h-3" /> Reverse
+                          </button>
+                          <button
+                              onClick={pingPongSequence}
+                              disabled={activeFrames.length < 3}
+                              className="flex items-center gap-1 px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-xs disabled:opacity-50"
+                              title={activeClip ? 'Append the sequence backwards' : 'Create a ping-pong clip from this sequence'}
+                          >
+                              <Repeat className="w-3 h-3" /> Ping-pong
+                          </button>
+                          <button
+                              onClick={mirrorSequence}
+                              className="flex items-center gap-1 px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-xs"
+                              title="Create a mirrored copy of this sequence (opposite facing direction)"
+                          >
+                              <FlipHorizontal className="w-3 h-3" /> Mirror
+                          </button>
+                      </div>
+                  </div>
+                  <div
+                      className="flex-1 flex items-center gap-1 px-4 overflow-x-auto"
+                      onDragOver={(e) => { if (timelineDrag) e.preventDefault(); }}
+                      onDrop={handleTimelineDrop}
+                  >
+                      {activeFrames.map((frame, index) => (
+                          <div
+                              key={`${index}-${frame.id}`}
+                              draggable
+                              onDragStart={(e) => handleTimelineDragStart(index, e)}
+                              onDragOver={(e) => handleTimelineDragOver(index, e)}
+                              onDragEnd={() => { setTimelineDrag(null); setTimelineDropIndex(null); }}
+                              onClick={(e) => selectTimelineEntry(index, e)}
+                              className={`relative flex-shrink-0 w-14 h-16 rounded border flex items-center justify-center cursor-grab bg-zinc-950 transition-colors
+                                  ${timelineSelection.includes(index) ? 'border-indigo-500 bg-indigo-950/40' : 'border-zinc-700 hover:border-zinc-500'}
+                                  ${previewFrameIndex % activeFrames.length === index ? 'ring-1 ring-yellow-400/70' : ''}
+                                  ${timelineDrag?.includes(index) ? 'opacity-40' : ''}`}
+                          >
+                              {timelineDropIndex === index && <div className="absolute -left-1 top-0 bottom-0 w-0.5 bg-indigo-400 rounded" />}
+                              {timelineDropIndex === index + 1 && index === activeFrames.length - 1 && <div className="absolute -right-1 top-0 bottom-0 w-0.5 bg-indigo-400 rounded" />}
+                              <canvas
+                                  ref={el => { timelineCanvasRefs.current[index] = el; }}
+                                  className="max-w-[48px] max-h-[48px] object-contain"
+                                  style={{ imageRendering: 'pixelated' }}
+                              />
+                              <span className="absolute bottom-0 left-1 text-[9px] text-zinc-400 font-mono">{index + 1}</span>
+                              <span className="absolute top-0 right-1 text-[9px] text-zinc-600 font-mono">#{frame.id}</span>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
+
       </main>
+
+      {/* Shortcut Help */}
+      {showShortcutHelp && (
+          <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onClick={() => { setShowShortcutHelp(false); setRebindingAction(null); }}>
+              <div className="w-full max-w-lg max-h-full overflow-y-auto bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex items-center justify-between">
+                      <h2 className="text-sm font-semibold text-white flex items-center gap-2">
+                          <Keyboard className="w-4 h-4" /> Keyboard Shortcuts
+                      </h2>
+                      <div className="flex items-center gap-2">
+                          <button onClick={resetShortcuts} className="text-xs text-zinc-400 hover:text-white">Reset to defaults</button>
+                          <button onClick={() => { setShowShortcutHelp(false); setRebindingAction(null); }} className="p-1 hover:bg-zinc-800 rounded text-zinc-400">
+                              <X className="w-4 h-4" />
+                          </button>
+                      </div>
+                  </div>
+                  <p className="text-[10px] text-zinc-500">Click a binding to change it, then press the new key combination (Esc cancels).</p>
+                  <p className="text-[10px] text-zinc-500">Canvas: mouse wheel zooms; hold Space or the middle mouse button and drag to pan.</p>
+                  {Array.from(new Set(SHORTCUT_ACTIONS.map(a => a.group))).map(group => (
+                      <div key={group} className="space-y-1">
+                          <div className="text-[10px] text-zinc-500 uppercase font-semibold">{group}</div>
+                          {SHORTCUT_ACTIONS.filter(a => a.group === group).map(({ action, label }) => (
+                              <div key={action} className="flex items-center justify-between text-xs py-0.5">
+                                  <span className="text-zinc-300">{label}</span>
+                                  <button
+                                      onClick={() => setRebindingAction(action)}
+                                      className={`min-w-[80px] px-2 py-0.5 rounded border font-mono text-[11px] ${rebindingAction === action ? 'border-indigo-400 bg-indigo-900/40 text-indigo-200' : 'border-zinc-700 bg-zinc-800 hover:bg-zinc-700 text-zinc-300'}`}
+                                  >
+                                      {rebindingAction === action ? 'Press keys…' : shortcuts[action].map(formatBinding).join(' / ') || '—'}
+                                  </button>
+                              </div>
+                          ))}
+                      </div>
+                  ))}
+              </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -1,29 +1,25 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Part } from "@google/genai";
+import { ImageProvider, ProviderSettings } from "./imageProvider";
+import { buildFramePrompt, buildSpritePrompt, parseDataUrl } from "../utils/generation";
 
-// Initialize Gemini Client
-// Note: process.env.API_KEY is assumed to be available as per instructions.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// The client is created on first use and again whenever the API key changes.
+// Without a key in the settings, process.env.API_KEY (GEMINI_API_KEY in .env.local) is used.
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
 
-export const generateSpriteSheet = async (prompt: string): Promise<string> => {
+const getClient = (settings: ProviderSettings) => {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+  if (!client || client.apiKey !== apiKey) client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  return client.ai;
+};
+
+const requestImage = async (settings: ProviderSettings, parts: Part[], aspectRatio: string): Promise<string> => {
   try {
-    const enhancedPrompt = `
-      Create a sprite sheet for a game character animation. 
-      Subject: ${prompt}.
-      Layout: Grid arrangement, separate frames clearly.
-      Style: Pixel art or clean 2D vector style.
-      Background: Solid distinct color (e.g., bright green or magenta) for easy removal.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { text: enhancedPrompt }
-        ]
-      },
+    const response = await getClient(settings).models.generateContent({
+      model: settings.model || 'gemini-2.5-flash-image',
+      contents: { parts },
       config: {
         imageConfig: {
-            aspectRatio: "1:1" // Defaulting to square for sprite sheets usually works best
+            aspectRatio
         }
       }
     });
@@ -36,10 +32,39 @@ export const generateSpriteSheet = async (prompt: string): Promise<string> => {
         }
       }
     }
-    
+
     throw new Error("No image generated.");
   } catch (error) {
     console.error("Gemini Generation Error:", error);
     throw error;
   }
 };
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Google Gemini image model',
+  capabilities: () => ({
+    edit: true,
+    references: true,
+    aspectRatios: null,
+  }),
+  fields: [
+    { key: 'apiKey', label: 'API Key', placeholder: 'From GEMINI_API_KEY', secret: true },
+    { key: 'model', label: 'Model', placeholder: 'gemini-2.5-flash-image' },
+  ],
+  defaults: { apiKey: '', model: 'gemini-2.5-flash-image' },
+
+  // Reference images go in front of the prompt as inline image parts
+  generate: (config, references, settings) => requestImage(settings, [
+    ...references.map(ref => ({ inlineData: parseDataUrl(ref.dataUrl) })),
+    { text: buildSpritePrompt(config, references.length) }
+  ], config.ratio),
+
+  // The frame to fix comes first, then its neighbours, then the instructions
+  edit: (request, settings) => requestImage(settings, [
+    { inlineData: parseDataUrl(request.frame) },
+    ...request.neighbours.map(dataUrl => ({ inlineData: parseDataUrl(dataUrl) })),
+    { text: buildFramePrompt(request) }
+  ], request.ratio),
+};
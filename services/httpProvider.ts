@@ -0,0 +1,115 @@
+import { ImageProvider, ProviderSettings } from "./imageProvider";
+import { buildFramePrompt, buildSpritePrompt } from "../utils/generation";
+import { blobToDataUrl } from "../utils/sheetPatch";
+
+// Any server speaking the OpenAI images API: OpenAI itself, or a local Stable
+// Diffusion setup behind an OpenAI-compatible endpoint (LocalAI, sd-webui extensions, ...).
+
+interface ModelProfile {
+  sizes: Record<string, string>; // Aspect ratio -> size parameter
+  responseFormat: boolean;       // Accepts response_format (gpt-image models always return base64)
+  edit: boolean;
+}
+
+// OpenAI models each take their own set of sizes. Anything else is assumed to be a
+// local server, which generally accepts any size and defaults to returning URLs.
+const PROFILES: { match: RegExp; profile: ModelProfile }[] = [
+  {
+    match: /^gpt-image/,
+    profile: { sizes: { '1:1': '1024x1024', '3:2': '1536x1024', '2:3': '1024x1536' }, responseFormat: false, edit: true },
+  },
+  {
+    match: /^dall-e-3/,
+    profile: { sizes: { '1:1': '1024x1024', '16:9': '1792x1024', '9:16': '1024x1792' }, responseFormat: true, edit: false },
+  },
+  {
+    match: /^dall-e-2/,
+    profile: { sizes: { '1:1': '1024x1024' }, responseFormat: true, edit: true },
+  },
+];
+
+const LOCAL_PROFILE: ModelProfile = {
+  sizes: { '1:1': '1024x1024', '4:3': '1024x768', '3:4': '768x1024', '3:2': '1536x1024', '2:3': '1024x1536', '16:9': '1792x1024', '9:16': '1024x1792' },
+  responseFormat: true,
+  edit: true,
+};
+
+const getProfile = (settings: ProviderSettings) =>
+  PROFILES.find(p => p.match.test(settings.model || ''))?.profile ?? LOCAL_PROFILE;
+
+// Size, model and response format shared by both endpoints
+const imageParams = (settings: ProviderSettings, ratio: string): Record<string, string> => {
+  const profile = getProfile(settings);
+  return {
+    size: profile.sizes[ratio] || profile.sizes['1:1'],
+    ...(profile.responseFormat ? { response_format: 'b64_json' } : {}),
+    ...(settings.model ? { model: settings.model } : {}),
+  };
+};
+
+const endpoint = (settings: ProviderSettings, path: string) =>
+  `${(settings.baseUrl || 'http://localhost:8080/v1').replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (settings: ProviderSettings): Record<string, string> =>
+  settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+// Responses carry either base64 data or a URL to fetch the image from
+const readImage = async (response: Response): Promise<string> => {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Image server responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  const body = await response.json();
+  const image = body?.data?.[0];
+  if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+  if (image?.url) return blobToDataUrl(await (await fetch(image.url)).blob());
+  throw new Error("No image generated.");
+};
+
+export const httpProvider: ImageProvider = {
+  id: 'http',
+  label: 'OpenAI-compatible',
+  description: 'OpenAI images API or a local server that mimics it',
+  capabilities: (settings) => {
+    const profile = getProfile(settings);
+    return {
+      edit: profile.edit,
+      references: false,
+      aspectRatios: Object.keys(profile.sizes),
+    };
+  },
+  fields: [
+    { key: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:8080/v1' },
+    { key: 'apiKey', label: 'API Key', placeholder: 'Optional', secret: true },
+    { key: 'model', label: 'Model', placeholder: 'Server default' },
+  ],
+  defaults: { baseUrl: 'http://localhost:8080/v1', apiKey: '', model: '' },
+
+  generate: async (config, _references, settings) => {
+    const response = await fetch(endpoint(settings, '/images/generations'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(settings) },
+      body: JSON.stringify({
+        prompt: buildSpritePrompt(config),
+        n: 1,
+        ...imageParams(settings, config.ratio),
+      }),
+    });
+    return readImage(response);
+  },
+
+  // The edits endpoint takes a single image, so the neighbours are left out
+  edit: async (request, settings) => {
+    const form = new FormData();
+    form.append('image', await (await fetch(request.frame)).blob(), 'frame.png');
+    form.append('prompt', buildFramePrompt({ ...request, neighbours: [] }));
+    form.append('n', '1');
+    Object.entries(imageParams(settings, request.ratio)).forEach(([key, value]) => form.append(key, value));
+    const response = await fetch(endpoint(settings, '/images/edits'), {
+      method: 'POST',
+      headers: authHeaders(settings),
+      body: form,
+    });
+    return readImage(response);
+  },
+};
@@ -0,0 +1,33 @@
+import { FrameRegenRequest, GenerationConfig, ReferenceImage } from "../types";
+
+// Image generation backends. Every provider turns a GenerationConfig into a sheet
+// and, if it can edit, redraws a single frame. All images travel as data URLs.
+
+export type ProviderId = 'gemini' | 'http' | 'mock';
+
+export type ProviderSettings = Record<string, string>;
+
+export interface ProviderSettingField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean; // Rendered as a password input
+}
+
+export interface ProviderCapabilities {
+  edit: boolean;                 // Supports regenerating a single frame
+  references: boolean;         // Accepts reference images with a generation request
+  aspectRatios: string[] | null; // Supported ratios, or null for any
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  capabilities: (settings: ProviderSettings) => ProviderCapabilities; // May depend on the configured model
+  fields: ProviderSettingField[];
+  defaults: ProviderSettings;
+  // `variant` is the index within a batch; providers without their own randomness use it as a seed
+  generate(config: GenerationConfig, references: ReferenceImage[], settings: ProviderSettings, variant: number): Promise<string>;
+  edit(request: FrameRegenRequest, settings: ProviderSettings): Promise<string>;
+}
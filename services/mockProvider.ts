@@ -0,0 +1,156 @@
+import { ImageProvider } from "./imageProvider";
+import { GenerationConfig, SpriteStyle } from "../types";
+import { clampFrameCount } from "../utils/generation";
+import { loadImage } from "../utils/sheetPatch";
+
+// Offline provider that draws a stick-figure walk cycle, for working on the app without
+// an API key. The same prompt, settings and variant always give the same pixels.
+
+const SHEET_SIZE = 1024; // Longest side of a generated sheet
+const PIXEL_SIZE = 8;    // Pixel art is drawn at 1/8 resolution and scaled up
+
+// FNV-1a
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+interface Palette {
+  body: string;
+  head: string;
+  limbs: string;
+}
+
+const createPalette = (seed: number): Palette => {
+  const random = createRandom(seed);
+  const hue = Math.floor(random() * 360);
+  return {
+    body: `hsl(${hue}, 55%, 45%)`,
+    head: `hsl(${(hue + 40) % 360}, 45%, 72%)`,
+    limbs: `hsl(${hue}, 35%, 25%)`,
+  };
+};
+
+// One pose of the walk cycle, centered in a size × size cell at (x, y)
+const drawCharacter = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, phase: number, palette: Palette, style: SpriteStyle) => {
+  const cx = x + size / 2;
+  const hip = y + size * 0.62;
+  const shoulder = y + size * 0.38;
+  const limb = size * 0.22;
+  const swing = Math.sin(phase) * 0.6;
+  const bob = Math.abs(Math.cos(phase)) * size * 0.02;
+
+  ctx.save();
+  ctx.translate(0, -bob);
+  ctx.lineCap = 'round';
+  ctx.lineWidth = Math.max(1, size * 0.06);
+  ctx.strokeStyle = palette.limbs;
+  [swing, -swing].forEach(angle => {
+    ctx.beginPath();
+    ctx.moveTo(cx, hip);
+    ctx.lineTo(cx + Math.sin(angle) * limb, hip + Math.cos(angle) * limb);
+    ctx.moveTo(cx, shoulder);
+    ctx.lineTo(cx - Math.sin(angle) * limb * 0.8, shoulder + Math.cos(angle) * limb * 0.8);
+    ctx.stroke();
+  });
+
+  ctx.fillStyle = palette.body;
+  ctx.fillRect(cx - size * 0.1, shoulder - size * 0.04, size * 0.2, hip - shoulder + size * 0.04);
+  ctx.fillStyle = palette.head;
+  ctx.beginPath();
+  ctx.arc(cx, y + size * 0.26, size * 0.1, 0, Math.PI * 2);
+  ctx.fill();
+
+  if (style === 'hand-drawn') {
+    ctx.lineWidth = Math.max(1, size * 0.015);
+    ctx.strokeStyle = '#1c1917';
+    ctx.stroke();
+    ctx.strokeRect(cx - size * 0.1, shoulder - size * 0.04, size * 0.2, hip - shoulder + size * 0.04);
+  }
+  ctx.restore();
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  return { canvas, ctx };
+};
+
+// Pixel art is drawn small and scaled up without smoothing to get hard, blocky edges
+const finish = (canvas: HTMLCanvasElement, width: number, height: number, style: SpriteStyle) => {
+  if (style !== 'pixel') return canvas.toDataURL('image/png');
+  const out = createCanvas(width, height);
+  out.ctx.imageSmoothingEnabled = false;
+  out.ctx.drawImage(canvas, 0, 0, width, height);
+  return out.canvas.toDataURL('image/png');
+};
+
+const sheetSize = (ratio: string) => {
+  const [w, h] = ratio.split(':').map(Number);
+  const scale = SHEET_SIZE / Math.max(w || 1, h || 1);
+  return { width: Math.round((w || 1) * scale), height: Math.round((h || 1) * scale) };
+};
+
+export const drawMockSheet = (config: GenerationConfig, variant = 0) => {
+  const { width, height } = sheetSize(config.ratio);
+  const shrink = config.style === 'pixel' ? PIXEL_SIZE : 1;
+  const { canvas, ctx } = createCanvas(width / shrink, height / shrink);
+  ctx.fillStyle = config.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const palette = createPalette(hashString(config.prompt.trim().toLowerCase()) + variant);
+  const frames = clampFrameCount(config);
+  const cellWidth = canvas.width / config.cols;
+  const cellHeight = canvas.height / config.rows;
+  const size = Math.min(cellWidth, cellHeight);
+  for (let i = 0; i < frames; i++) {
+    const x = (i % config.cols) * cellWidth + (cellWidth - size) / 2;
+    const y = Math.floor(i / config.cols) * cellHeight + (cellHeight - size) / 2;
+    drawCharacter(ctx, x, y, size, (i / frames) * Math.PI * 2, palette, config.style);
+  }
+  return finish(canvas, width, height, config.style);
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  description: 'Procedural test sheets, no network needed',
+  capabilities: () => ({
+    edit: true,
+    references: false,
+    aspectRatios: null,
+  }),
+  fields: [],
+  defaults: {},
+
+  generate: async (config, _references, _settings, variant) => drawMockSheet(config, variant),
+
+  // Redraws the frame at its own size with a pose picked from the instructions
+  edit: async (request) => {
+    const frame = await loadImage(request.frame);
+    const shrink = request.style === 'pixel' ? PIXEL_SIZE : 1;
+    const { canvas, ctx } = createCanvas(frame.width / shrink, frame.height / shrink);
+    ctx.fillStyle = request.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const size = Math.min(canvas.width, canvas.height);
+    const phase = (hashString(request.instructions) % 360) * Math.PI / 180;
+    drawCharacter(ctx, (canvas.width - size) / 2, (canvas.height - size) / 2, size, phase,
+      createPalette(hashString(request.prompt.trim().toLowerCase())), request.style);
+    return finish(canvas, frame.width, frame.height, request.style);
+  },
+};
@@ -0,0 +1,42 @@
+import { ImageProvider, ProviderId, ProviderSettings } from "./imageProvider";
+import { geminiProvider } from "./geminiService";
+import { httpProvider } from "./httpProvider";
+import { mockProvider } from "./mockProvider";
+import { isStoredObject, readStoredObject, writeStoredObject } from "../utils/storage";
+
+// Registry of the available providers, plus the user's choice and per-provider
+// settings, which live in localStorage (API keys included, so they stay in this browser).
+
+export const PROVIDERS: ImageProvider[] = [geminiProvider, httpProvider, mockProvider];
+
+export const getProvider = (id: ProviderId) => PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+export interface ProviderPreferences {
+  active: ProviderId;
+  settings: Record<ProviderId, ProviderSettings>;
+}
+
+const STORAGE_KEY = 'nanosprite.providers';
+
+const defaultPreferences = (): ProviderPreferences => ({
+  active: 'gemini',
+  settings: Object.fromEntries(PROVIDERS.map(p => [p.id, { ...p.defaults }])) as Record<ProviderId, ProviderSettings>,
+});
+
+export const loadProviderPreferences = (): ProviderPreferences => {
+  const preferences = defaultPreferences();
+  const stored = readStoredObject(STORAGE_KEY);
+  const active = PROVIDERS.find(p => p.id === stored.active);
+  if (active) preferences.active = active.id;
+  PROVIDERS.forEach(p => {
+    const values = isStoredObject(stored.settings) ? stored.settings[p.id] : undefined;
+    if (!isStoredObject(values)) return;
+    Object.keys(p.defaults).forEach(key => {
+      const value = values[key];
+      if (typeof value === 'string') preferences.settings[p.id][key] = value;
+    });
+  });
+  return preferences;
+};
+
+export const saveProviderPreferences = (preferences: ProviderPreferences) => writeStoredObject(STORAGE_KEY, preferences);
@@ -11,7 +11,45 @@ export interface FrameConfig {
   offsetY: number;
   active: boolean;
   flipH: boolean; // Horizontal flip state
+  flipV?: boolean; // Vertical flip state
+  rotation?: FrameRotation; // Clockwise, applied after flips
+  scale?: number; // Integer nearest-neighbour upscale, 1 when unset
   sequenceOrder: number; // For custom sorting of animation frames
+  duration?: number; // Hold time in ms; falls back to 1000 / fps when unset
+  pivot?: FramePoint; // Origin in frame-local pixels; defaults to the frame center
+  boxes?: FrameBox[]; // Collision rectangles in frame-local pixels
+}
+
+export type FrameRotation = 0 | 90 | 180 | 270;
+
+export interface FramePoint {
+  x: number;
+  y: number;
+}
+
+export type FrameBoxKind = 'hitbox' | 'hurtbox';
+
+export interface FrameBox {
+  name: string;
+  kind: FrameBoxKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnimationClip {
+  id: string;
+  name: string;
+  frameIds: number[]; // Playback order; a frame may appear several times
+  fps: number;
+  loop: boolean;
+  mirrored?: boolean; // Plays the frames mirrored horizontally (e.g. a left-facing copy of a right-facing clip)
+}
+
+export interface Dividers {
+  v: number[]; // Vertical dividers (0 to 1)
+  h: number[]; // Horizontal dividers (0 to 1)
 }
 
 export interface GridDimensions {
@@ -19,12 +57,56 @@ export interface GridDimensions {
   cols: number;
 }
 
+export enum SlicingMode {
+  GRID = 'GRID', // Frames come from the draggable divider grid
+  AUTO = 'AUTO', // Frames come from connected-component detection on the pixels
+  MANUAL = 'MANUAL', // Frames are free-form rectangles drawn and edited by hand
+  CELL = 'CELL', // Frames come from a fixed cell size with margin and spacing
+}
+
 export enum AppMode {
   GENERATE = 'GENERATE',
   EDIT = 'EDIT',
 }
 
+export type SpriteStyle = 'pixel' | 'vector' | 'hand-drawn';
+
 export interface GenerationConfig {
   prompt: string;
+  ratio: string;      // Image aspect ratio, e.g. "1:1" or "16:9"
+  rows: number;       // Requested sheet layout
+  cols: number;
+  frameCount: number; // Frames to draw, filled row by row; <= rows * cols
+  style: SpriteStyle;
+  background: string; // Solid key color as "#rrggbb", removed later with the chroma key
+}
+
+// A generated sheet kept in the gallery. Variants requested together share a batch.
+export interface GenerationRecord {
+  id: string;
+  batchId: string;
+  createdAt: number;
+  config: GenerationConfig;
+  referenceCount: number; // Reference images attached to the request (not stored)
+  provider?: string;      // Label of the provider that made it
+  image: Blob;            // Full sheet; stored as a Blob, which takes less room than a data URL
+  thumbnail: string;      // Small PNG data URL for the gallery
+}
+
+// Redraw of one frame, with its neighbours in the sequence as context
+export interface FrameRegenRequest {
+  frame: string;       // Crop of the frame from the sheet, as a data URL
+  neighbours: string[]; // Crops of the frames before / after it
+  prompt: string;      // What the sheet shows
+  instructions: string; // Optional note on what to fix
+  style: SpriteStyle;
+  background: string;
   ratio: string;
 }
+
+// Image sent along with the prompt to keep a character consistent across sheets
+export interface ReferenceImage {
+  id: string;
+  name: string;    // Where it came from, e.g. the file name or "frame #4"
+  dataUrl: string;
+}
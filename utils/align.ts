@@ -0,0 +1,103 @@
+import { FrameConfig } from '../types';
+import { Rect } from './rect';
+
+// Auto-alignment: measure where the sprite actually sits inside each frame and
+// compute offsets that put every frame's content on a common anchor.
+
+export type AlignMode = 'center' | 'baseline' | 'anchor';
+
+export interface AlignOptions {
+  mode: AlignMode;
+  anchorX: number;     // 0 = left, 0.5 = center, 1 = right (anchor mode)
+  anchorY: number;     // 0 = top, 0.5 = middle, 1 = bottom (anchor mode)
+  horizontal: boolean; // Write offsetX
+  vertical: boolean;   // Write offsetY
+}
+
+export const DEFAULT_ALIGN_OPTIONS: AlignOptions = {
+  mode: 'baseline',
+  anchorX: 0.5,
+  anchorY: 1,
+  horizontal: true,
+  vertical: true,
+};
+
+// Bounding box of foreground pixels inside the frame's source rect, in frame-local coordinates.
+// `mask` is a per-pixel foreground mask of the whole sheet (see buildForegroundMask).
+export const getContentBounds = (mask: Uint8Array, sheetWidth: number, sheetHeight: number, frame: FrameConfig): Rect | null => {
+  const x0 = Math.max(0, Math.floor(frame.x));
+  const y0 = Math.max(0, Math.floor(frame.y));
+  const x1 = Math.min(sheetWidth, Math.ceil(frame.x + frame.width));
+  const y1 = Math.min(sheetHeight, Math.ceil(frame.y + frame.height));
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = y0; y < y1; y++) {
+    const row = y * sheetWidth;
+    for (let x = x0; x < x1; x++) {
+      if (!mask[row + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX - x0, y: minY - y0, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Alignment works in the rendered frame. A half turn is the same as flipping both axes,
+// but a quarter turn swaps them, so those frames are left alone.
+export const canAlign = (frame: FrameConfig) => frame.rotation !== 90 && frame.rotation !== 270;
+
+const mirroredX = (frame: FrameConfig) => !!frame.flipH !== (frame.rotation === 180);
+const mirroredY = (frame: FrameConfig) => !!frame.flipV !== (frame.rotation === 180);
+
+// Offset that puts the content point at fraction `a` of the bounds onto `target` (frame-local, as rendered).
+// A flipped frame is mirrored after the offset is applied, so its anchor is mirrored too.
+const solveOffsetX = (frame: FrameConfig, bounds: Rect, a: number, target: number) =>
+  mirroredX(frame)
+    ? Math.round(frame.width - target - (bounds.x + (1 - a) * bounds.width))
+    : Math.round(target - (bounds.x + a * bounds.width));
+
+const solveOffsetY = (frame: FrameConfig, bounds: Rect, a: number, target: number) =>
+  mirroredY(frame)
+    ? Math.round(frame.height - target - (bounds.y + (1 - a) * bounds.height))
+    : Math.round(target - (bounds.y + a * bounds.height));
+
+// Bottom edge of the content as rendered
+const contentBottom = (frame: FrameConfig, bounds: Rect) =>
+  mirroredY(frame)
+    ? frame.height - (frame.offsetY + bounds.y)
+    : frame.offsetY + bounds.y + bounds.height;
+
+// Returns new offsets keyed by frame id; frames without visible content or with a quarter turn are left out.
+export const computeAlignment = (
+  frames: FrameConfig[],
+  bounds: Map<number, Rect>,
+  options: AlignOptions
+): Map<number, { offsetX: number; offsetY: number }> => {
+  const measured = frames.filter(f => bounds.has(f.id) && canAlign(f));
+  const result = new Map<number, { offsetX: number; offsetY: number }>();
+  if (measured.length === 0) return result;
+
+  const anchorX = options.mode === 'anchor' ? options.anchorX : 0.5;
+  const anchorY = options.mode === 'anchor' ? options.anchorY : options.mode === 'baseline' ? 1 : 0.5;
+
+  // Baseline: drop everything onto the lowest feet currently on screen, so nothing gets pushed out of its cell
+  const baseline = options.mode === 'baseline'
+    ? Math.max(...measured.map(f => contentBottom(f, bounds.get(f.id)!)))
+    : 0;
+
+  measured.forEach(frame => {
+    const box = bounds.get(frame.id)!;
+    const targetY = options.mode === 'baseline' ? Math.min(baseline, frame.height) : frame.height * anchorY;
+    result.set(frame.id, {
+      offsetX: options.horizontal ? solveOffsetX(frame, box, anchorX, frame.width * anchorX) : frame.offsetX,
+      offsetY: options.vertical ? solveOffsetY(frame, box, anchorY, targetY) : frame.offsetY,
+    });
+  });
+  return result;
+};
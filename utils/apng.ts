@@ -0,0 +1,112 @@
+import { crc32 } from './crc32';
+
+// Animated PNG encoder. Keeps full 8-bit alpha, unlike GIF.
+// Compression uses the browser's native CompressionStream ("deflate" = zlib).
+
+export interface AnimationFrameInput {
+  canvas: HTMLCanvasElement;
+  delay: number; // ms
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const encoder = new TextEncoder();
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(encoder.encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+export const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('This browser does not support CompressionStream');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Each scanline gets the "Sub" filter, which helps a lot on flat sprite colors
+const filterScanlines = (rgba: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const src = y * stride;
+    const dst = y * (stride + 1);
+    out[dst] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? rgba[src + x - 4] : 0;
+      out[dst + 1 + x] = (rgba[src + x] - left) & 0xff;
+    }
+  }
+  return out;
+};
+
+// Draws every frame onto a canvas of the largest frame size, since APNG frames share one canvas
+export const normalizeFrameSizes = (frames: AnimationFrameInput[]) => {
+  const width = Math.max(...frames.map(f => f.canvas.width));
+  const height = Math.max(...frames.map(f => f.canvas.height));
+  return {
+    width,
+    height,
+    images: frames.map(frame => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('Could not create canvas context');
+      ctx.drawImage(frame.canvas, 0, 0);
+      return ctx.getImageData(0, 0, width, height);
+    }),
+  };
+};
+
+export const encodeApng = async (frames: AnimationFrameInput[], options: { loop: boolean }): Promise<Blob> => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height, images } = normalizeFrameSizes(frames);
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = 6; // Color type: RGBA
+  parts.push(chunk('IHDR', ihdr));
+
+  const actl = new DataView(new ArrayBuffer(8));
+  actl.setUint32(0, frames.length);
+  actl.setUint32(4, options.loop ? 0 : 1); // num_plays, 0 = forever
+  parts.push(chunk('acTL', new Uint8Array(actl.buffer)));
+
+  let sequence = 0;
+  for (let i = 0; i < images.length; i++) {
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequence++);
+    fctl.setUint32(4, width);
+    fctl.setUint32(8, height);
+    fctl.setUint32(12, 0); // x offset
+    fctl.setUint32(16, 0); // y offset
+    fctl.setUint16(20, Math.min(65535, Math.round(frames[i].delay)));
+    fctl.setUint16(22, 1000); // Delay is in milliseconds
+    fctl.setUint8(24, 1); // dispose_op: clear to transparent before the next frame
+    fctl.setUint8(25, 0); // blend_op: source, replace the region
+    parts.push(chunk('fcTL', new Uint8Array(fctl.buffer)));
+
+    const data = await deflate(filterScanlines(images[i].data, width, height));
+    if (i === 0) {
+      parts.push(chunk('IDAT', data));
+    } else {
+      const fdat = new Uint8Array(4 + data.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      parts.push(chunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+};
@@ -0,0 +1,131 @@
+import { FrameBox } from '../types';
+
+// Packs rendered frames into a single atlas image and describes it in the
+// TexturePacker JSON (Hash / Array) format understood by Phaser and PixiJS.
+
+export type AtlasFormat = 'hash' | 'array';
+
+export interface AtlasOptions {
+  padding: number;      // Empty pixels between packed frames (and around the edge)
+  powerOfTwo: boolean;  // Round the atlas size up to powers of two
+  format: AtlasFormat;
+}
+
+export const DEFAULT_ATLAS_OPTIONS: AtlasOptions = {
+  padding: 2,
+  powerOfTwo: false,
+  format: 'hash',
+};
+
+export interface AtlasEntry {
+  name: string;
+  canvas: HTMLCanvasElement; // Already rendered frame (flip / offset applied)
+  duration?: number;
+  pivot?: { x: number; y: number }; // Normalized 0..1
+  boxes?: FrameBox[];              // Frame-local pixels
+}
+
+export interface PackedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PackResult {
+  width: number;
+  height: number;
+  rects: PackedRect[]; // Same order as the input sizes
+}
+
+const nextPowerOfTwo = (n: number) => {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+};
+
+// Shelf packer: tallest items first, rows filled left to right up to a width
+// that aims for a roughly square atlas. Good enough for sprite frames, which
+// tend to share similar heights.
+export const packRects = (sizes: { width: number; height: number }[], padding: number, powerOfTwo: boolean): PackResult => {
+  if (sizes.length === 0) return { width: 1, height: 1, rects: [] };
+
+  const area = sizes.reduce((sum, s) => sum + (s.width + padding) * (s.height + padding), 0);
+  const widest = Math.max(...sizes.map(s => s.width)) + padding * 2;
+  let targetWidth = Math.max(widest, Math.ceil(Math.sqrt(area)) + padding);
+  if (powerOfTwo) targetWidth = nextPowerOfTwo(targetWidth);
+
+  const order = sizes
+    .map((size, index) => ({ ...size, index }))
+    .sort((a, b) => b.height - a.height || b.width - a.width);
+
+  const rects: PackedRect[] = new Array(sizes.length);
+  let x = padding;
+  let y = padding;
+  let shelfHeight = 0;
+  let usedWidth = 0;
+
+  order.forEach(item => {
+    if (x + item.width + padding > targetWidth && x > padding) {
+      x = padding;
+      y += shelfHeight + padding;
+      shelfHeight = 0;
+    }
+    rects[item.index] = { x, y, width: item.width, height: item.height };
+    x += item.width + padding;
+    shelfHeight = Math.max(shelfHeight, item.height);
+    usedWidth = Math.max(usedWidth, x);
+  });
+
+  let width = usedWidth;
+  let height = y + shelfHeight + padding;
+  if (powerOfTwo) {
+    width = nextPowerOfTwo(width);
+    height = nextPowerOfTwo(height);
+  }
+  return { width, height, rects };
+};
+
+export const drawAtlas = (entries: AtlasEntry[], pack: PackResult): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pack.width;
+  canvas.height = pack.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  entries.forEach((entry, i) => ctx.drawImage(entry.canvas, pack.rects[i].x, pack.rects[i].y));
+  return canvas;
+};
+
+export const buildAtlasJson = (
+  entries: AtlasEntry[],
+  pack: PackResult,
+  options: { format: AtlasFormat; imageName: string; animations: Record<string, string[]> }
+) => {
+  const describe = (entry: AtlasEntry, rect: PackedRect) => ({
+    frame: { x: rect.x, y: rect.y, w: rect.width, h: rect.height },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: rect.width, h: rect.height },
+    sourceSize: { w: rect.width, h: rect.height },
+    ...(entry.duration !== undefined ? { duration: entry.duration } : {}),
+    ...(entry.pivot ? { pivot: entry.pivot } : {}),
+    ...(entry.boxes ? { boxes: entry.boxes } : {}),
+  });
+
+  const frames = options.format === 'hash'
+    ? Object.fromEntries(entries.map((entry, i) => [entry.name, describe(entry, pack.rects[i])]))
+    : entries.map((entry, i) => ({ filename: entry.name, ...describe(entry, pack.rects[i]) }));
+
+  return {
+    frames,
+    animations: options.animations,
+    meta: {
+      app: 'NanoSprite Studio',
+      version: '1.0',
+      image: options.imageName,
+      format: 'RGBA8888',
+      size: { w: pack.width, h: pack.height },
+      scale: '1',
+    },
+  };
+};
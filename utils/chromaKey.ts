@@ -0,0 +1,116 @@
+// Chroma-key background removal for generated sheets, which Gemini is asked to
+// render on a solid green or magenta backdrop.
+
+export interface ChromaKeySettings {
+  enabled: boolean;
+  colors: string[];  // Key colors as "#rrggbb"
+  tolerance: number; // RGB distance that is removed completely
+  feather: number;   // Extra distance over which alpha ramps back up to opaque
+  despill: boolean;  // Pull key-colored fringes on edges back to neutral
+}
+
+export const DEFAULT_CHROMA_KEY: ChromaKeySettings = {
+  enabled: false,
+  colors: [],
+  tolerance: 60,
+  feather: 30,
+  despill: true,
+};
+
+type RGB = [number, number, number];
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16) || 0;
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+// Channels where the key is stronger than the rest are the ones that "spill"
+// (G for green, R+B for magenta)
+const spillChannels = (key: RGB) => {
+  const mean = (key[0] + key[1] + key[2]) / 3;
+  const spill = [0, 1, 2].filter(c => key[c] > mean);
+  const rest = [0, 1, 2].filter(c => key[c] <= mean);
+  return { spill, rest };
+};
+
+export const applyChromaKey = (image: ImageData, settings: ChromaKeySettings): ImageData => {
+  const keys = settings.colors.map(hexToRgb);
+  if (keys.length === 0) return image;
+
+  const out = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  const data = out.data;
+  const channels = keys.map(spillChannels);
+  const inner = settings.tolerance;
+  const outer = settings.tolerance + Math.max(0, settings.feather);
+  // Despill also reaches a bit past the feather so solid edge pixels lose their tint
+  const despillReach = outer * 2;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    let nearest = 0;
+    let distance = Infinity;
+    for (let k = 0; k < keys.length; k++) {
+      const dr = data[i] - keys[k][0];
+      const dg = data[i + 1] - keys[k][1];
+      const db = data[i + 2] - keys[k][2];
+      const d = Math.sqrt(dr * dr + dg * dg + db * db);
+      if (d < distance) {
+        distance = d;
+        nearest = k;
+      }
+    }
+
+    if (distance <= inner) {
+      data[i + 3] = 0;
+      continue;
+    }
+    if (distance < outer) {
+      data[i + 3] = Math.round(data[i + 3] * (distance - inner) / (outer - inner));
+    }
+
+    if (settings.despill && distance < despillReach) {
+      const { spill, rest } = channels[nearest];
+      if (spill.length === 0 || rest.length === 0) continue;
+      const excess = Math.min(...spill.map(c => data[i + c])) - Math.max(...rest.map(c => data[i + c]));
+      if (excess > 0) spill.forEach(c => data[i + c] -= excess);
+    }
+  }
+  return out;
+};
+
+// Averages a small patch in each corner and returns the color most corners agree on
+export const detectKeyColor = (image: ImageData, patch = 4): string => {
+  const { width, height, data } = image;
+  const size = Math.max(1, Math.min(patch, width, height));
+  const corners: RGB[] = [
+    [0, 0], [width - size, 0], [0, height - size], [width - size, height - size],
+  ].map(([sx, sy]) => {
+    const acc: RGB = [0, 0, 0];
+    for (let y = sy; y < sy + size; y++) {
+      for (let x = sx; x < sx + size; x++) {
+        const i = (y * width + x) * 4;
+        acc[0] += data[i];
+        acc[1] += data[i + 1];
+        acc[2] += data[i + 2];
+      }
+    }
+    return acc.map(v => v / (size * size)) as RGB;
+  });
+
+  let best = corners[0];
+  let bestVotes = -1;
+  corners.forEach(candidate => {
+    const votes = corners.filter(other =>
+      Math.abs(other[0] - candidate[0]) + Math.abs(other[1] - candidate[1]) + Math.abs(other[2] - candidate[2]) < 48
+    ).length;
+    if (votes > bestVotes) {
+      bestVotes = votes;
+      best = candidate;
+    }
+  });
+  return rgbToHex(best[0], best[1], best[2]);
+};
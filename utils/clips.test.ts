@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, FrameConfig } from '../types';
+import {
+  applyDefaultOrder, createClip, duplicateEntries, getSequenceDuration, mirroredClipName, mirrorFrame,
+  moveEntries, pingPong, resolveClipFrames, reverseRange, uniqueClipName,
+} from './clips';
+
+const frame = (id: number, extra: Partial<FrameConfig> = {}): FrameConfig => ({
+  id, row: 0, col: id, x: id * 10, y: 0, width: 10, height: 20, offsetX: 0, offsetY: 0,
+  active: true, flipH: false, sequenceOrder: id, ...extra,
+});
+
+describe('clip names', () => {
+  const clips = [createClip('walk', [], 8), createClip('walk 2', [], 8), createClip('run left', [], 8)];
+
+  it('numbers taken names', () => {
+    expect(uniqueClipName('idle', clips)).toBe('idle');
+    expect(uniqueClipName('walk', clips)).toBe('walk 3');
+  });
+
+  it('swaps left and right, keeping case', () => {
+    expect(mirroredClipName('Walk Right', clips)).toBe('Walk Left');
+    expect(mirroredClipName('run right', clips)).toBe('run left 2');
+    expect(mirroredClipName('jump', clips)).toBe('jump mirrored');
+  });
+});
+
+describe('mirrorFrame', () => {
+  it('flips horizontally and mirrors the pivot and boxes', () => {
+    const mirrored = mirrorFrame(frame(1, {
+      pivot: { x: 2, y: 18 },
+      boxes: [{ name: 'hit', kind: 'hitbox', x: 1, y: 2, width: 3, height: 4 }],
+    }));
+    expect(mirrored.flipH).toBe(true);
+    expect(mirrored.pivot).toEqual({ x: 8, y: 18 });
+    expect(mirrored.boxes![0]).toMatchObject({ x: 6, y: 2 });
+  });
+
+  it('flips a quarter-turned frame on its other axis', () => {
+    const mirrored = mirrorFrame(frame(1, { rotation: 90, pivot: { x: 2, y: 5 } }));
+    expect(mirrored.flipH).toBe(false);
+    expect(mirrored.flipV).toBe(true);
+    expect(mirrored.pivot).toEqual({ x: 2, y: 15 });
+  });
+});
+
+describe('resolveClipFrames', () => {
+  it('keeps repeats, drops missing ids and mirrors mirrored clips', () => {
+    const frames = [frame(1), frame(2)];
+    const clip: AnimationClip = { ...createClip('walk', [2, 9, 1, 2], 8), mirrored: true };
+    const resolved = resolveClipFrames(clip, frames);
+    expect(resolved.map(f => f.id)).toEqual([2, 1, 2]);
+    expect(resolved.every(f => f.flipH)).toBe(true);
+  });
+
+  it('sums per-frame durations with the fps as fallback', () => {
+    expect(getSequenceDuration([frame(1, { duration: 300 }), frame(2)], 10)).toBe(400);
+  });
+});
+
+describe('sequence editing', () => {
+  const list = ['a', 'b', 'c', 'd', 'e'];
+
+  it('moves picked entries before the target', () => {
+    expect(moveEntries(list, [0, 2], 4)).toEqual(['b', 'd', 'a', 'c', 'e']);
+    expect(moveEntries(list, [3], 0)).toEqual(['d', 'a', 'b', 'c', 'e']);
+    expect(moveEntries(list, [1], list.length)).toEqual(['a', 'c', 'd', 'e', 'b']);
+  });
+
+  it('duplicates after the last picked entry', () => {
+    expect(duplicateEntries(list, [3, 1])).toEqual(['a', 'b', 'c', 'd', 'b', 'd', 'e']);
+    expect(duplicateEntries(list, [])).toBe(list);
+  });
+
+  it('reverses the picked span, or everything', () => {
+    expect(reverseRange(list, [1, 3])).toEqual(['a', 'd', 'c', 'b', 'e']);
+    expect(reverseRange(list, [])).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('ping-pongs without repeating the ends', () => {
+    expect(pingPong(['a', 'b', 'c', 'd'])).toEqual(['a', 'b', 'c', 'd', 'c', 'b']);
+    expect(pingPong(['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('rewrites the default order, inactive frames last', () => {
+    const frames = [frame(1), frame(2, { active: false }), frame(3)];
+    const ordered = applyDefaultOrder(frames, [3, 1]);
+    expect(ordered.map(f => [f.id, f.sequenceOrder])).toEqual([[1, 1], [2, 2], [3, 0]]);
+  });
+});
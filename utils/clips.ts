@@ -0,0 +1,110 @@
+import { AnimationClip, FrameConfig } from '../types';
+
+export const createClipId = () =>
+  `clip_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const createClip = (name: string, frameIds: number[], fps: number): AnimationClip => ({
+  id: createClipId(),
+  name,
+  frameIds,
+  fps,
+  loop: true,
+});
+
+// Picks a "walk", "walk 2", "walk 3"... name that isn't taken yet.
+export const uniqueClipName = (base: string, clips: AnimationClip[]) => {
+  const taken = new Set(clips.map(c => c.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+// "walk right" -> "walk left"; names without a direction get a "mirrored" suffix
+export const mirroredClipName = (name: string, clips: AnimationClip[]) => {
+  const swapped = name.replace(/\b(left|right)\b/gi, word => {
+    const other = word.toLowerCase() === 'left' ? 'right' : 'left';
+    return word[0] === word[0].toUpperCase() ? other[0].toUpperCase() + other.slice(1) : other;
+  });
+  return uniqueClipName(swapped !== name ? swapped : `${name} mirrored`, clips);
+};
+
+// Mirrors the rendered frame horizontally. Flips happen before rotation, so a
+// quarter-turned frame is flipped on its other axis; pivot and boxes follow the flip.
+export const mirrorFrame = (frame: FrameConfig): FrameConfig => {
+  const vertical = frame.rotation === 90 || frame.rotation === 270;
+  return {
+    ...frame,
+    flipH: vertical ? frame.flipH : !frame.flipH,
+    flipV: vertical ? !frame.flipV : frame.flipV,
+    pivot: frame.pivot && (vertical
+      ? { x: frame.pivot.x, y: frame.height - frame.pivot.y }
+      : { x: frame.width - frame.pivot.x, y: frame.pivot.y }),
+    boxes: frame.boxes?.map(box => vertical
+      ? { ...box, y: frame.height - box.y - box.height }
+      : { ...box, x: frame.width - box.x - box.width }),
+  };
+};
+
+// Resolves a clip's frame ids against the current frames, dropping ids whose
+// frame no longer exists (e.g. after the grid was re-sliced).
+export const resolveClipFrames = (clip: AnimationClip, frames: FrameConfig[]): FrameConfig[] => {
+  const byId = new Map(frames.map(f => [f.id, f]));
+  const resolved = clip.frameIds
+    .map(id => byId.get(id))
+    .filter((f): f is FrameConfig => f !== undefined);
+  return clip.mirrored ? resolved.map(mirrorFrame) : resolved;
+};
+
+// The default sequence: every active frame in its custom order.
+export const getDefaultSequence = (frames: FrameConfig[]): FrameConfig[] =>
+  frames
+    .filter(f => f.active)
+    .sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+
+export const getFrameDuration = (frame: FrameConfig, fps: number) =>
+  frame.duration !== undefined && frame.duration > 0 ? frame.duration : 1000 / fps;
+
+export const getSequenceDuration = (sequence: FrameConfig[], fps: number) =>
+  sequence.reduce((total, frame) => total + getFrameDuration(frame, fps), 0);
+
+// --- Sequence editing ---
+// These work on positions in a playback order (a clip's frameIds, or the
+// default sequence's ids), since a clip may contain the same frame twice.
+
+// Moves the entries at `positions` so they land, in their current order, before
+// the entry that was at `target` (target === list.length appends).
+export const moveEntries = <T>(list: T[], positions: number[], target: number): T[] => {
+  const picked = new Set(positions);
+  const moving = list.filter((_, i) => picked.has(i));
+  const rest = list.filter((_, i) => !picked.has(i));
+  const insertAt = target - positions.filter(p => p < target).length;
+  return [...rest.slice(0, insertAt), ...moving, ...rest.slice(insertAt)];
+};
+
+// Inserts copies of the picked entries right after the last picked one
+export const duplicateEntries = <T>(list: T[], positions: number[]): T[] => {
+  if (positions.length === 0) return list;
+  const sorted = [...positions].sort((a, b) => a - b);
+  const last = sorted[sorted.length - 1];
+  return [...list.slice(0, last + 1), ...sorted.map(p => list[p]), ...list.slice(last + 1)];
+};
+
+// Reverses the span from the first to the last picked entry, or everything if fewer than two are picked
+export const reverseRange = <T>(list: T[], positions: number[]): T[] => {
+  const start = positions.length > 1 ? Math.min(...positions) : 0;
+  const end = positions.length > 1 ? Math.max(...positions) : list.length - 1;
+  return [...list.slice(0, start), ...list.slice(start, end + 1).reverse(), ...list.slice(end + 1)];
+};
+
+// a b c d -> a b c d c b, which loops back to a without showing the ends twice
+export const pingPong = <T>(list: T[]): T[] =>
+  list.length < 3 ? [...list] : [...list, ...list.slice(1, -1).reverse()];
+
+// Rewrites sequenceOrder so the default sequence follows `ids`; inactive frames keep their relative order after them.
+export const applyDefaultOrder = (frames: FrameConfig[], ids: number[]): FrameConfig[] => {
+  const position = new Map(ids.map((id, i) => [id, i]));
+  const others = frames.filter(f => !position.has(f.id)).sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+  others.forEach((f, i) => position.set(f.id, ids.length + i));
+  return frames.map(f => ({ ...f, sequenceOrder: position.get(f.id)! }));
+};
@@ -0,0 +1,243 @@
+// Automatic sprite detection: finds connected islands of non-background pixels
+// and turns them into tight bounding boxes that can be used as frames.
+
+export interface DetectedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  row: number;
+  col: number;
+}
+
+export interface DetectionOptions {
+  tolerance: number;       // Max RGB distance from the key color still treated as background
+  alphaThreshold: number;  // Pixels with alpha below this are background
+  minArea: number;         // Islands with fewer opaque pixels are discarded as noise
+  mergeDistance: number;   // Islands closer than this (px) are merged into one sprite
+  padding: number;         // Extra space added around each detected box
+}
+
+export type BackgroundModel =
+  | { kind: 'alpha' }
+  | { kind: 'color'; r: number; g: number; b: number };
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  tolerance: 40,
+  alphaThreshold: 16,
+  minArea: 24,
+  mergeDistance: 6,
+  padding: 2,
+};
+
+interface Island {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  count: number;
+}
+
+export const readImageData = (img: CanvasImageSource & { width: number; height: number }): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+// Looks at the outer border of the sheet: mostly transparent means an alpha sheet,
+// otherwise the most common border color is taken as the key color.
+export const inferBackground = (image: ImageData, alphaThreshold: number): BackgroundModel => {
+  const { width, height, data } = image;
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+  let transparent = 0;
+  let total = 0;
+
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    total++;
+    if (data[i + 3] < alphaThreshold) {
+      transparent++;
+      return;
+    }
+    // Quantize to 4 bits per channel so slight JPEG noise lands in the same bucket
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, n: 0 };
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    bucket.n++;
+    buckets.set(key, bucket);
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    if (height > 1) sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    if (width > 1) sample(width - 1, y);
+  }
+
+  if (total === 0 || transparent / total >= 0.5 || buckets.size === 0) {
+    return { kind: 'alpha' };
+  }
+
+  let best = { r: 0, g: 0, b: 0, n: 0 };
+  buckets.forEach(bucket => {
+    if (bucket.n > best.n) best = bucket;
+  });
+
+  return {
+    kind: 'color',
+    r: Math.round(best.r / best.n),
+    g: Math.round(best.g / best.n),
+    b: Math.round(best.b / best.n),
+  };
+};
+
+export const buildForegroundMask = (image: ImageData, background: BackgroundModel, options: DetectionOptions): Uint8Array => {
+  const { width, height, data } = image;
+  const mask = new Uint8Array(width * height);
+  const tolSq = options.tolerance * options.tolerance;
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    if (data[i + 3] < options.alphaThreshold) continue;
+    if (background.kind === 'color') {
+      const dr = data[i] - background.r;
+      const dg = data[i + 1] - background.g;
+      const db = data[i + 2] - background.b;
+      if (dr * dr + dg * dg + db * db <= tolSq) continue;
+    }
+    mask[p] = 1;
+  }
+  return mask;
+};
+
+// 8-connected flood fill over the mask, iterative to stay clear of stack limits on big sheets
+const findIslands = (mask: Uint8Array, width: number, height: number): Island[] => {
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const islands: Island[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const island: Island = { minX: width, minY: height, maxX: -1, maxY: -1, count: 0 };
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+
+      island.count++;
+      if (x < island.minX) island.minX = x;
+      if (x > island.maxX) island.maxX = x;
+      if (y < island.minY) island.minY = y;
+      if (y > island.maxY) island.maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width || (dx === 0 && dy === 0)) continue;
+          const n = ny * width + nx;
+          if (mask[n] && !visited[n]) {
+            visited[n] = 1;
+            stack[top++] = n;
+          }
+        }
+      }
+    }
+    islands.push(island);
+  }
+  return islands;
+};
+
+// Repeatedly unions islands whose boxes come within `distance` of each other,
+// so detached bits (eyes, sparkles, weapon tips) join their sprite.
+const mergeIslands = (islands: Island[], distance: number): Island[] => {
+  const merged = islands.map(i => ({ ...i }));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let a = 0; a < merged.length; a++) {
+      for (let b = a + 1; b < merged.length; b++) {
+        const A = merged[a];
+        const B = merged[b];
+        const gapX = Math.max(A.minX, B.minX) - Math.min(A.maxX, B.maxX) - 1;
+        const gapY = Math.max(A.minY, B.minY) - Math.min(A.maxY, B.maxY) - 1;
+        if (gapX <= distance && gapY <= distance) {
+          A.minX = Math.min(A.minX, B.minX);
+          A.minY = Math.min(A.minY, B.minY);
+          A.maxX = Math.max(A.maxX, B.maxX);
+          A.maxY = Math.max(A.maxY, B.maxY);
+          A.count += B.count;
+          merged.splice(b, 1);
+          b--;
+          changed = true;
+        }
+      }
+    }
+  }
+  return merged;
+};
+
+// Groups boxes into rows (by vertical overlap) and orders each row left to right,
+// giving the reading order an animator expects.
+const assignRowsAndCols = (rects: Omit<DetectedRect, 'row' | 'col'>[]): DetectedRect[] => {
+  const sorted = [...rects].sort((a, b) => a.y - b.y);
+  const rows: { top: number; bottom: number; items: typeof rects }[] = [];
+
+  sorted.forEach(rect => {
+    const centerY = rect.y + rect.height / 2;
+    const row = rows.find(r => centerY >= r.top && centerY <= r.bottom);
+    if (row) {
+      row.items.push(rect);
+      row.top = Math.min(row.top, rect.y);
+      row.bottom = Math.max(row.bottom, rect.y + rect.height);
+    } else {
+      rows.push({ top: rect.y, bottom: rect.y + rect.height, items: [rect] });
+    }
+  });
+
+  const result: DetectedRect[] = [];
+  rows
+    .sort((a, b) => a.top - b.top)
+    .forEach((row, r) => {
+      row.items
+        .sort((a, b) => a.x - b.x)
+        .forEach((rect, c) => result.push({ ...rect, row: r, col: c }));
+    });
+  return result;
+};
+
+export const detectSpriteRects = (
+  image: ImageData,
+  options: DetectionOptions,
+  background: BackgroundModel = inferBackground(image, options.alphaThreshold)
+): DetectedRect[] => {
+  const { width, height } = image;
+  const mask = buildForegroundMask(image, background, options);
+  const islands = mergeIslands(findIslands(mask, width, height), options.mergeDistance)
+    .filter(island => island.count >= options.minArea);
+
+  const rects = islands.map(island => {
+    const x = Math.max(0, island.minX - options.padding);
+    const y = Math.max(0, island.minY - options.padding);
+    const right = Math.min(width, island.maxX + 1 + options.padding);
+    const bottom = Math.min(height, island.maxY + 1 + options.padding);
+    return { x, y, width: right - x, height: bottom - y };
+  });
+
+  return assignRowsAndCols(rects);
+};
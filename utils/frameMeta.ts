@@ -0,0 +1,100 @@
+import { FrameBox, FrameBoxKind, FrameConfig, FramePoint } from '../types';
+import { getRenderSize, transformFramePoint } from './frameRender';
+
+// Per-frame pivot and collision boxes. Both are edited in frame-local pixels of the
+// (flipped) frame box; rotation and scale are applied on the way out.
+
+export const BOX_COLORS: Record<FrameBoxKind, string> = {
+  hitbox: '#ef4444',  // Deals damage
+  hurtbox: '#22c55e', // Receives damage
+};
+
+export const getFramePivot = (frame: FrameConfig): FramePoint =>
+  frame.pivot ?? { x: frame.width / 2, y: frame.height / 2 };
+
+export const clampPoint = (frame: FrameConfig, x: number, y: number): FramePoint => ({
+  x: Math.round(Math.max(0, Math.min(frame.width, x))),
+  y: Math.round(Math.max(0, Math.min(frame.height, y))),
+});
+
+// Next free name like "hitbox2" for the given frame
+export const nextBoxName = (frame: FrameConfig, kind: FrameBoxKind) => {
+  const names = new Set((frame.boxes || []).map(b => b.name));
+  let n = 1;
+  while (names.has(`${kind}${n}`)) n++;
+  return `${kind}${n}`;
+};
+
+// Pivot and boxes in the rendered frame's pixels (after rotation and scale)
+export const getRenderedMeta = (frame: FrameConfig, exportScale = 1) => {
+  const pivot = transformFramePoint(frame, getFramePivot(frame), exportScale);
+  const boxes = (frame.boxes || []).map((box): FrameBox => {
+    const a = transformFramePoint(frame, { x: box.x, y: box.y }, exportScale);
+    const b = transformFramePoint(frame, { x: box.x + box.width, y: box.y + box.height }, exportScale);
+    return {
+      name: box.name,
+      kind: box.kind,
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(b.x - a.x),
+      height: Math.abs(b.y - a.y),
+    };
+  });
+  return { size: getRenderSize(frame, exportScale), pivot, boxes };
+};
+
+// Metadata written next to each frame in exports. The pivot is normalized (0..1)
+// like TexturePacker's, boxes are in pixels of the exported image.
+export const describeFrameMeta = (frame: FrameConfig, exportScale = 1) => {
+  const { size, pivot, boxes } = getRenderedMeta(frame, exportScale);
+  return {
+    pivot: {
+      x: +(pivot.x / size.width).toFixed(4),
+      y: +(pivot.y / size.height).toFixed(4),
+    },
+    ...(boxes.length > 0 ? { boxes } : {}),
+  };
+};
+
+// Pivot crosshair and collision boxes, drawn at `scale` with the frame's top-left at (originX, originY).
+// `rendered` draws them over the rendered frame (rotated / scaled) instead of the frame box.
+export const drawFrameMeta = (
+  ctx: CanvasRenderingContext2D,
+  frame: FrameConfig,
+  originX: number,
+  originY: number,
+  scale = 1,
+  options: { showPivot?: boolean; highlightBox?: number; rendered?: boolean } = {}
+) => {
+  const meta = options.rendered
+    ? getRenderedMeta(frame)
+    : { pivot: getFramePivot(frame), boxes: frame.boxes || [] };
+  ctx.save();
+  ctx.lineWidth = 1;
+  meta.boxes.forEach((box, i) => {
+    const x = originX + box.x * scale;
+    const y = originY + box.y * scale;
+    ctx.fillStyle = BOX_COLORS[box.kind] + (i === options.highlightBox ? '55' : '26');
+    ctx.strokeStyle = BOX_COLORS[box.kind];
+    ctx.fillRect(x, y, box.width * scale, box.height * scale);
+    ctx.strokeRect(x + 0.5, y + 0.5, box.width * scale - 1, box.height * scale - 1);
+  });
+
+  if (options.showPivot !== false) {
+    const pivot = meta.pivot;
+    const px = Math.round(originX + pivot.x * scale) + 0.5;
+    const py = Math.round(originY + pivot.y * scale) + 0.5;
+    const arm = 6;
+    ctx.strokeStyle = '#facc15'; // yellow-400
+    ctx.beginPath();
+    ctx.moveTo(px - arm, py);
+    ctx.lineTo(px + arm, py);
+    ctx.moveTo(px, py - arm);
+    ctx.lineTo(px, py + arm);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(px, py, 3, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
@@ -0,0 +1,119 @@
+import { FrameRegenRequest, GenerationConfig, GenerationRecord, SpriteStyle } from '../types';
+
+// Sheet generation settings and the prompt they turn into. The layout is spelled out
+// so the sheet can be sliced with the same rows × cols right after generation.
+
+export const ASPECT_RATIOS = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9'];
+
+export const STYLE_PRESETS: Record<SpriteStyle, { label: string; prompt: string }> = {
+  pixel: {
+    label: 'Pixel art',
+    prompt: 'Crisp pixel art with a limited palette, hard edges and no anti-aliasing or blur.',
+  },
+  vector: {
+    label: 'Vector',
+    prompt: 'Clean 2D vector art with flat colors and smooth, even outlines.',
+  },
+  'hand-drawn': {
+    label: 'Hand-drawn',
+    prompt: 'Hand-drawn 2D illustration with inked outlines and soft cel shading.',
+  },
+};
+
+export const MAX_REFERENCE_IMAGES = 4;
+export const MAX_VARIANTS = 4;
+export const MAX_GALLERY_SIZE = 48; // Oldest sheets are dropped beyond this
+
+export const KEY_COLOR_PRESETS: { label: string; color: string }[] = [
+  { label: 'Green', color: '#00ff00' },
+  { label: 'Magenta', color: '#ff00ff' },
+  { label: 'Blue', color: '#0000ff' },
+];
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  prompt: 'A cute pixel art robot walking',
+  ratio: '1:1',
+  rows: 3,
+  cols: 3,
+  frameCount: 9,
+  style: 'pixel',
+  background: '#00ff00',
+};
+
+export const clampFrameCount = (config: Pick<GenerationConfig, 'rows' | 'cols' | 'frameCount'>) =>
+  Math.max(1, Math.min(config.rows * config.cols, Math.round(config.frameCount)));
+
+const describeColor = (hex: string) => {
+  const preset = KEY_COLOR_PRESETS.find(p => p.color === hex.toLowerCase());
+  return preset ? `pure ${preset.label.toLowerCase()} (${hex})` : hex;
+};
+
+// Supported ratio closest to width / height, compared on a log scale
+export const closestAspectRatio = (width: number, height: number, ratios = ASPECT_RATIOS) => {
+  const target = Math.log(width / height);
+  const value = (ratio: string) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log(w / h) - target);
+  };
+  return ratios.reduce((best, ratio) => value(ratio) < value(best) ? ratio : best);
+};
+
+export const buildFramePrompt = (request: FrameRegenRequest) => {
+  const neighbours = request.neighbours.length;
+  return [
+    'The first image is one frame of a sprite animation that came out malformed.',
+    ...(neighbours > 0 ? [
+      `The other ${neighbours === 1 ? 'image is the neighbouring frame' : `${neighbours} images are the neighbouring frames`} from the same animation; use them as reference for the character.`,
+    ] : []),
+    `The animation shows: ${request.prompt.trim() || 'a game character'}.`,
+    'Redraw only the first frame: same character, same size and position in the frame, with a pose that fits between its neighbours.',
+    ...(request.instructions.trim() ? [`Fix: ${request.instructions.trim()}.`] : []),
+    `Style: ${STYLE_PRESETS[request.style].prompt}`,
+    `Background: a single flat ${describeColor(request.background)} color, exactly as in the original frame.`,
+    'Return a single image containing just this one frame.',
+  ].join('\n');
+};
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const createReferenceId = () => createId('ref');
+export const createGenerationId = () => createId('gen');
+export const createBatchId = () => createId('batch');
+
+// Gallery records grouped by request, in the order given (newest first)
+export const groupByBatch = (records: GenerationRecord[]) => {
+  const batches: { batchId: string; records: GenerationRecord[] }[] = [];
+  records.forEach(record => {
+    const batch = batches.find(b => b.batchId === record.batchId);
+    if (batch) batch.records.push(record);
+    else batches.push({ batchId: record.batchId, records: [record] });
+  });
+  return batches;
+};
+
+// "data:image/png;base64,AAAA" -> { mimeType: "image/png", data: "AAAA" }
+export const parseDataUrl = (dataUrl: string) => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) throw new Error('Reference image is not a base64 data URL');
+  return { mimeType: match[1], data: match[2] };
+};
+
+export const buildSpritePrompt = (config: GenerationConfig, referenceCount = 0) => {
+  const frames = clampFrameCount(config);
+  const cells = config.rows * config.cols;
+  const empty = cells - frames;
+  return [
+    'Create a sprite sheet for a game character animation.',
+    ...(referenceCount > 0 ? [
+      `The attached image${referenceCount === 1 ? ' shows' : 's show'} the character. Keep its design, proportions, colors and outfit exactly the same; only the pose changes.`,
+    ] : []),
+    `Subject: ${config.prompt.trim()}.`,
+    `Layout: a grid of exactly ${config.rows} row${config.rows === 1 ? '' : 's'} and ${config.cols} column${config.cols === 1 ? '' : 's'} of equally sized cells.`,
+    `Draw ${frames} animation frame${frames === 1 ? '' : 's'} in reading order (left to right, top to bottom)` +
+      (empty > 0 ? `; leave the last ${empty} cell${empty === 1 ? '' : 's'} empty.` : '.'),
+    'Keep the character the same size and centered in every cell, with no borders, labels or gridlines.',
+    `Style: ${STYLE_PRESETS[config.style].prompt}`,
+    `Background: a single flat ${describeColor(config.background)} color everywhere, with no shadows or gradients, and that color must not appear on the character.`,
+  ].join('\n');
+};
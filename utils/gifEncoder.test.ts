@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif, GifEncodeOptions, GifFrameData, lzwEncode } from './gifEncoder';
+
+// Reference GIF LZW decoder (variable code size, clear and end codes)
+const lzwDecode = (data: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let prev: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    prev = null;
+  };
+  reset();
+
+  while (true) {
+    while (bitCount < codeSize) {
+      if (pos >= data.length) throw new Error('Ran out of data before the end code');
+      bitBuffer |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return out;
+
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (prev && code === table.length) entry = [...prev, prev[0]];
+    else throw new Error(`Invalid code ${code}`);
+
+    out.push(...entry);
+    if (prev && table.length < 4096) table.push([...prev, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    prev = entry;
+  }
+};
+
+// Pulls the palette and the decoded pixel indices out of a GIF written by encodeGif
+const readGif = (bytes: Uint8Array) => {
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  const width = bytes[6] | (bytes[7] << 8);
+  const height = bytes[8] | (bytes[9] << 8);
+  const tableSize = 1 << ((bytes[10] & 7) + 1);
+  const palette: number[][] = [];
+  for (let i = 0; i < tableSize; i++) palette.push(Array.from(bytes.subarray(13 + i * 3, 16 + i * 3)));
+
+  const frames: { indices: number[]; delay: number; transparent: number | null }[] = [];
+  let loop: number | null = null;
+  let delay = 0;
+  let transparent: number | null = null;
+  let pos = 13 + tableSize * 3;
+
+  const readBlocks = () => {
+    const chunks: number[] = [];
+    while (bytes[pos] !== 0) {
+      const length = bytes[pos++];
+      chunks.push(...bytes.subarray(pos, pos + length));
+      pos += length;
+    }
+    pos++;
+    return new Uint8Array(chunks);
+  };
+
+  while (bytes[pos] !== 0x3b) {
+    if (bytes[pos] === 0x21 && bytes[pos + 1] === 0xff) {
+      pos += 2 + 1 + 11;
+      const data = readBlocks();
+      loop = data[1] | (data[2] << 8);
+    } else if (bytes[pos] === 0x21 && bytes[pos + 1] === 0xf9) {
+      const flags = bytes[pos + 3];
+      delay = (bytes[pos + 4] | (bytes[pos + 5] << 8)) * 10;
+      transparent = flags & 1 ? bytes[pos + 6] : null;
+      pos += 8;
+    } else if (bytes[pos] === 0x2c) {
+      pos += 10;
+      const minCodeSize = bytes[pos++];
+      frames.push({ indices: lzwDecode(readBlocks(), minCodeSize), delay, transparent });
+    } else {
+      throw new Error(`Unexpected block 0x${bytes[pos].toString(16)} at ${pos}`);
+    }
+  }
+  return { header, width, height, palette, frames, loop };
+};
+
+const solidFrame = (width: number, height: number, pixel: (x: number, y: number) => number[], delay = 100): GifFrameData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data, delay };
+};
+
+// The palette is built from 5-bit channels, so colors come back within 4 of the input
+const expectColor = (actual: number[], expected: number[]) =>
+  actual.forEach((value, c) => expect(Math.abs(value - expected[c])).toBeLessThanOrEqual(4));
+
+const OPTIONS: GifEncodeOptions = { paletteSize: 256, dither: false, transparentColor: null, repeat: 0 };
+
+describe('lzwEncode', () => {
+  it('round-trips short and empty inputs', () => {
+    expect(lzwDecode(lzwEncode(new Uint8Array([]), 2), 2)).toEqual([]);
+    expect(lzwDecode(lzwEncode(new Uint8Array([3]), 2), 2)).toEqual([3]);
+    const repeated = new Uint8Array([1, 1, 1, 1, 2, 2, 1, 1, 1, 3, 0, 0]);
+    expect(lzwDecode(lzwEncode(repeated, 2), 2)).toEqual(Array.from(repeated));
+  });
+
+  it('round-trips past a full code table', () => {
+    // Pseudo-random bytes fill the 4096-entry table several times over
+    let seed = 7;
+    const indices = new Uint8Array(50000).map(() => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) % 256);
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+  });
+});
+
+describe('encodeGif', () => {
+  it('writes frames that decode back to their colors', () => {
+    const colors = [[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 255], [255, 255, 255, 255]];
+    const frames = [
+      solidFrame(4, 3, (x, y) => colors[(x + y) % 4], 100),
+      solidFrame(4, 3, (x) => colors[x % 2], 250),
+    ];
+    const gif = readGif(encodeGif(frames, OPTIONS));
+
+    expect(gif.header).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([4, 3]);
+    expect(gif.loop).toBe(0);
+    expect(gif.frames.map(f => f.delay)).toEqual([100, 250]);
+    gif.frames.forEach((frame, i) => {
+      expect(frame.indices).toHaveLength(12);
+      frame.indices.forEach((index, p) => expectColor(gif.palette[index], Array.from(frames[i].data.subarray(p * 4, p * 4 + 3))));
+    });
+  });
+
+  it('maps transparent pixels and the key color to the transparent index', () => {
+    const frame = solidFrame(2, 2, (x, y) => [[0, 0, 0, 0], [10, 20, 30, 255], [0, 255, 0, 255], [200, 100, 50, 255]][y * 2 + x]);
+    const gif = readGif(encodeGif([frame], { ...OPTIONS, transparentColor: '#00ff00', repeat: -1 }));
+
+    expect(gif.loop).toBeNull();
+    const [{ indices, transparent }] = gif.frames;
+    expect(transparent).toBe(0);
+    expect(indices[0]).toBe(0);
+    expect(indices[2]).toBe(0);
+    expectColor(gif.palette[indices[1]], [10, 20, 30]);
+    expectColor(gif.palette[indices[3]], [200, 100, 50]);
+  });
+
+  it('rejects an empty frame list', () => {
+    expect(() => encodeGif([], OPTIONS)).toThrow('No frames to encode');
+  });
+});
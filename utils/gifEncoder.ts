@@ -0,0 +1,363 @@
+// Self-contained GIF89a encoder: median-cut palette, optional Floyd-Steinberg
+// dithering and LZW compression. Pure functions only, so it runs in a worker.
+
+export interface GifEncodeOptions {
+  paletteSize: number;             // 2..256 colors, including the transparent slot
+  dither: boolean;                 // Floyd-Steinberg error diffusion
+  transparentColor: string | null; // Extra RGB color (e.g. "#00ff00") written as transparent
+  repeat: number;                  // 0 = loop forever, -1 = play once, n = repeat n times
+}
+
+export interface GifFrameData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+  delay: number;           // ms
+}
+
+const ALPHA_CUTOFF = 128;
+
+const parseHexColor = (hex: string | null): [number, number, number] | null => {
+  if (!hex) return null;
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const isTransparentPixel = (data: Uint8ClampedArray, i: number, key: [number, number, number] | null) =>
+  data[i + 3] < ALPHA_CUTOFF || (key !== null && data[i] === key[0] && data[i + 1] === key[1] && data[i + 2] === key[2]);
+
+// --- Palette (median cut over a 15-bit color histogram) ---
+
+interface ColorBox {
+  colors: number[]; // Histogram keys (5 bits per channel)
+  count: number;
+}
+
+const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+
+export const buildPalette = (frames: GifFrameData[], maxColors: number, key: [number, number, number] | null): number[][] => {
+  const histogram = new Uint32Array(32768);
+  frames.forEach(frame => {
+    for (let i = 0; i < frame.data.length; i += 4) {
+      if (isTransparentPixel(frame.data, i, key)) continue;
+      histogram[((frame.data[i] >> 3) << 10) | ((frame.data[i + 1] >> 3) << 5) | (frame.data[i + 2] >> 3)]++;
+    }
+  });
+
+  const used: number[] = [];
+  let total = 0;
+  histogram.forEach((count, colorKey) => {
+    if (count > 0) {
+      used.push(colorKey);
+      total += count;
+    }
+  });
+  if (used.length === 0) return [[0, 0, 0]];
+
+  const boxes: ColorBox[] = [{ colors: used, count: total }];
+  while (boxes.length < maxColors) {
+    // Split the most populated box that still has more than one color
+    let target = -1;
+    boxes.forEach((box, i) => {
+      if (box.colors.length > 1 && (target === -1 || box.count > boxes[target].count)) target = i;
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    let widest = 0;
+    let widestRange = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = 31;
+      let max = 0;
+      box.colors.forEach(k => {
+        const v = channel(k, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+      if (max - min > widestRange) {
+        widestRange = max - min;
+        widest = c;
+      }
+    }
+
+    box.colors.sort((a, b) => channel(a, widest) - channel(b, widest));
+    // Stop one short of the end so the right half always keeps at least one color
+    let half = 0;
+    let split = 0;
+    for (; split < box.colors.length - 2; split++) {
+      half += histogram[box.colors[split]];
+      if (half >= box.count / 2) break;
+    }
+    const left = box.colors.slice(0, split + 1);
+    const right = box.colors.slice(split + 1);
+    const sum = (colors: number[]) => colors.reduce((s, k) => s + histogram[k], 0);
+    boxes.splice(target, 1, { colors: left, count: sum(left) }, { colors: right, count: sum(right) });
+  }
+
+  // Each box becomes the weighted average of its colors
+  return boxes.map(box => {
+    const acc = [0, 0, 0];
+    let n = 0;
+    box.colors.forEach(k => {
+      const w = histogram[k];
+      for (let c = 0; c < 3; c++) acc[c] += ((channel(k, c) << 3) | 4) * w;
+      n += w;
+    });
+    return acc.map(v => Math.round(v / Math.max(1, n)));
+  });
+};
+
+// --- Pixel -> palette index mapping ---
+
+const createColorMatcher = (palette: number[][], firstIndex: number) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] !== -1) return cache[key];
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = palette[i][0] - r;
+      const dg = palette[i][1] - g;
+      const db = palette[i][2] - b;
+      const dist = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    cache[key] = best + firstIndex;
+    return cache[key];
+  };
+};
+
+export const indexFrame = (
+  frame: GifFrameData,
+  palette: number[][],
+  options: { dither: boolean; transparentIndex: number; key: [number, number, number] | null }
+): Uint8Array => {
+  const { width, height, data } = frame;
+  const firstIndex = options.transparentIndex === 0 ? 1 : 0;
+  const match = createColorMatcher(palette, firstIndex);
+  const indices = new Uint8Array(width * height);
+  const error = options.dither ? new Float32Array(width * height * 3) : null;
+
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, factor: number) => {
+    if (!error || x < 0 || x >= width || y >= height) return;
+    const e = (y * width + x) * 3;
+    error[e] += er * factor;
+    error[e + 1] += eg * factor;
+    error[e + 2] += eb * factor;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (options.transparentIndex >= 0 && isTransparentPixel(data, i, options.key)) {
+        indices[p] = options.transparentIndex;
+        continue;
+      }
+
+      let r = data[i];
+      let g = data[i + 1];
+      let b = data[i + 2];
+      if (error) {
+        r = Math.max(0, Math.min(255, r + error[p * 3]));
+        g = Math.max(0, Math.min(255, g + error[p * 3 + 1]));
+        b = Math.max(0, Math.min(255, b + error[p * 3 + 2]));
+      }
+
+      const index = match(r, g, b);
+      indices[p] = index;
+
+      if (error) {
+        const color = palette[index - firstIndex];
+        const er = r - color[0];
+        const eg = g - color[1];
+        const eb = b - color[2];
+        spread(x + 1, y, er, eg, eb, 7 / 16);
+        spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+        spread(x, y + 1, er, eg, eb, 5 / 16);
+        spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+    }
+  }
+  return indices;
+};
+
+// --- LZW ---
+
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bitCount > 0) out.push(bitBuffer & 0xff);
+    return new Uint8Array(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      table.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return new Uint8Array(out);
+};
+
+// --- GIF container ---
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.bytes.push(values[i]);
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+export const encodeGif = (
+  frames: GifFrameData[],
+  options: GifEncodeOptions,
+  onProgress?: (done: number, total: number) => void
+): Uint8Array => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+
+  const key = parseHexColor(options.transparentColor);
+  const hasTransparency = frames.some(frame => {
+    for (let i = 0; i < frame.data.length; i += 4) {
+      if (isTransparentPixel(frame.data, i, key)) return true;
+    }
+    return false;
+  });
+
+  const paletteSize = Math.max(2, Math.min(256, Math.round(options.paletteSize)));
+  const transparentIndex = hasTransparency ? 0 : -1;
+  const colors = buildPalette(frames, hasTransparency ? paletteSize - 1 : paletteSize, key);
+
+  // The color table length must be a power of two; index 0 is the transparent slot if needed
+  const table = hasTransparency ? [[0, 0, 0], ...colors] : colors;
+  let tableBits = 1;
+  while ((1 << tableBits) < table.length) tableBits++;
+  const minCodeSize = Math.max(2, tableBits);
+
+  const width = Math.max(...frames.map(f => f.width));
+  const height = Math.max(...frames.map(f => f.height));
+  const w = new ByteWriter();
+
+  w.string('GIF89a');
+  w.short(width);
+  w.short(height);
+  w.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)); // Global color table present
+  w.byte(0); // Background color index
+  w.byte(0); // Pixel aspect ratio
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const color = table[i] || [0, 0, 0];
+    w.byte(color[0]);
+    w.byte(color[1]);
+    w.byte(color[2]);
+  }
+
+  if (options.repeat >= 0) {
+    w.byte(0x21);
+    w.byte(0xff);
+    w.byte(11);
+    w.string('NETSCAPE2.0');
+    w.byte(3);
+    w.byte(1);
+    w.short(options.repeat);
+    w.byte(0);
+  }
+
+  frames.forEach((frame, index) => {
+    // Graphic control extension: restore to background so transparent areas don't smear
+    w.byte(0x21);
+    w.byte(0xf9);
+    w.byte(4);
+    w.byte((2 << 2) | (hasTransparency ? 1 : 0));
+    w.short(Math.round(frame.delay / 10)); // Centiseconds
+    w.byte(hasTransparency ? transparentIndex : 0);
+    w.byte(0);
+
+    // Image descriptor, no local color table
+    w.byte(0x2c);
+    w.short(0);
+    w.short(0);
+    w.short(frame.width);
+    w.short(frame.height);
+    w.byte(0);
+
+    const indices = indexFrame(frame, colors, { dither: options.dither, transparentIndex, key });
+    const compressed = lzwEncode(indices, minCodeSize);
+    w.byte(minCodeSize);
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.subarray(i, i + 255);
+      w.byte(block.length);
+      w.array(block);
+    }
+    w.byte(0);
+
+    onProgress?.(index + 1, frames.length);
+  });
+
+  w.byte(0x3b);
+  return w.toUint8Array();
+};
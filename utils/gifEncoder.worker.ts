@@ -0,0 +1,27 @@
+import { encodeGif, GifEncodeOptions, GifFrameData } from './gifEncoder';
+
+// Module worker that keeps GIF quantization and LZW off the main thread.
+
+export interface GifWorkerRequest {
+  frames: GifFrameData[];
+  options: GifEncodeOptions;
+}
+
+export type GifWorkerResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; data: Uint8Array }
+  | { type: 'error'; message: string };
+
+const reply = (message: GifWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<GifWorkerRequest>) => {
+  try {
+    const { frames, options } = event.data;
+    const data = encodeGif(frames, options, (done, total) => reply({ type: 'progress', done, total }));
+    reply({ type: 'done', data }, [data.buffer]);
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,20 +1,53 @@
+import { GifEncodeOptions, GifFrameData } from './gifEncoder';
+import type { GifWorkerRequest, GifWorkerResponse } from './gifEncoder.worker';
+import { AnimationFrameInput } from './apng';
 
-// Fetch the standard gif.worker.js from CDN to ensure we have a valid, non-corrupt worker script.
-// This resolves issues with "s is not defined" or "e.writeHeader is not a function" caused by broken inline code.
+// Runs the bundled GIF encoder in a module Web Worker. Everything ships with the
+// app, so GIF export works offline and behind firewalls.
 
-export const getGifWorkerUrl = async (): Promise<string> => {
-  try {
-    const response = await fetch('https://cdnjs.cloudflare.com/ajax/libs/gif.js/0.2.0/gif.worker.js');
-    if (!response.ok) {
-        throw new Error(`Failed to fetch worker script: ${response.statusText}`);
-    }
-    const workerScript = await response.text();
-    const blob = new Blob([workerScript], { type: 'application/javascript' });
-    return URL.createObjectURL(blob);
-  } catch (error) {
-    console.error("Could not load GIF worker script:", error);
-    // Fallback: If fetch fails (e.g. offline), we might be stuck, 
-    // but better to fail loudly than crash silently with obscure errors.
-    throw error;
-  }
+export type GifOptions = GifEncodeOptions;
+
+export const DEFAULT_GIF_OPTIONS: GifOptions = {
+  paletteSize: 256,
+  dither: false,
+  transparentColor: null,
+  repeat: 0,
+};
+
+export const encodeGifInWorker = (
+  frames: AnimationFrameInput[],
+  options: GifOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const data: GifFrameData[] = frames.map(frame => {
+    const ctx = frame.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create canvas context');
+    const image = ctx.getImageData(0, 0, frame.canvas.width, frame.canvas.height);
+    return { width: image.width, height: image.height, data: image.data, delay: frame.delay };
+  });
+
+  const worker = new Worker(new URL('./gifEncoder.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<Blob>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<GifWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done / message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(new Blob([message.data], { type: 'image/gif' }));
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'GIF worker failed'));
+    };
+
+    const request: GifWorkerRequest = { frames: data, options };
+    worker.postMessage(request, data.map(frame => frame.data.buffer));
+  });
 };
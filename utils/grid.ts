@@ -0,0 +1,102 @@
+import { Dividers } from '../types';
+
+// Cell-size driven grid, the way asset store sheets are usually specified
+// ("32x32 tiles, 2px margin, 1px spacing").
+export interface CellGridSpec {
+  cellWidth: number;
+  cellHeight: number;
+  margin: number;  // Empty border around the whole sheet
+  spacing: number; // Gutter between neighbouring cells
+}
+
+export interface GridCell {
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CellGridLayout {
+  rows: number;
+  cols: number;
+  tooMany: boolean;   // More than MAX_GRID_CELLS; cells and dividers are left empty
+  cells: GridCell[];
+  dividers: Dividers; // Gutter centers, normalized like the draggable grid
+  leftoverX: number;  // Pixels at the right edge not covered by whole cells
+  leftoverY: number;  // Pixels at the bottom edge not covered by whole cells
+}
+
+// Beyond this the spec is almost certainly a typo (e.g. 1px cells) and slicing would stall the tab
+export const MAX_GRID_CELLS = 4096;
+
+// Most rows or columns in a rows × cols grid, for slicing and for generated sheets alike
+export const MAX_GRID_DIVISIONS = 16;
+
+export const DEFAULT_CELL_GRID: CellGridSpec = {
+  cellWidth: 32,
+  cellHeight: 32,
+  margin: 0,
+  spacing: 0,
+};
+
+const fitCount = (size: number, cell: number, margin: number, spacing: number) => {
+  if (cell <= 0) return 0;
+  return Math.max(0, Math.floor((size - 2 * margin + spacing) / (cell + spacing)));
+};
+
+export const computeCellGrid = (spec: CellGridSpec, imageWidth: number, imageHeight: number): CellGridLayout => {
+  const { cellWidth, cellHeight, margin, spacing } = spec;
+  const cols = fitCount(imageWidth, cellWidth, margin, spacing);
+  const rows = fitCount(imageHeight, cellHeight, margin, spacing);
+  if (rows * cols > MAX_GRID_CELLS) {
+    return { rows, cols, tooMany: true, cells: [], dividers: { v: [], h: [] }, leftoverX: 0, leftoverY: 0 };
+  }
+
+  const cells: GridCell[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      cells.push({
+        row: r,
+        col: c,
+        x: margin + c * (cellWidth + spacing),
+        y: margin + r * (cellHeight + spacing),
+        width: cellWidth,
+        height: cellHeight,
+      });
+    }
+  }
+
+  const usedWidth = cols > 0 ? 2 * margin + cols * cellWidth + (cols - 1) * spacing : 0;
+  const usedHeight = rows > 0 ? 2 * margin + rows * cellHeight + (rows - 1) * spacing : 0;
+
+  return {
+    rows,
+    cols,
+    tooMany: false,
+    cells,
+    dividers: {
+      v: Array.from({ length: Math.max(0, cols - 1) }, (_, i) =>
+        (margin + (i + 1) * cellWidth + i * spacing + spacing / 2) / imageWidth),
+      h: Array.from({ length: Math.max(0, rows - 1) }, (_, i) =>
+        (margin + (i + 1) * cellHeight + i * spacing + spacing / 2) / imageHeight),
+    },
+    leftoverX: imageWidth - usedWidth,
+    leftoverY: imageHeight - usedHeight,
+  };
+};
+
+// Human readable reason why the spec doesn't tile the image exactly, or null if it does.
+export const describeCellGridFit = (layout: CellGridLayout, imageWidth: number, imageHeight: number): string | null => {
+  if (layout.tooMany) {
+    return `${layout.cols}×${layout.rows} cells is more than the ${MAX_GRID_CELLS} limit. Use larger cells.`;
+  }
+  if (layout.cols === 0 || layout.rows === 0) {
+    return `Cells don't fit inside the ${imageWidth}×${imageHeight} image.`;
+  }
+  if (layout.leftoverX !== 0 || layout.leftoverY !== 0) {
+    return `${imageWidth}×${imageHeight} doesn't divide cleanly: ${layout.leftoverX}px right and ${layout.leftoverY}px bottom are left over.`;
+  }
+  return null;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, HISTORY_LIMIT, jumpToEntry, recordEntry, redoEntry, undoEntry } from './history';
+
+describe('history', () => {
+  it('undoes and redoes by swapping snapshots with the current state', () => {
+    let history = createHistory<number>();
+    history = recordEntry(history, 0, 'first', undefined, 0);
+    history = recordEntry(history, 1, 'second', undefined, 10);
+
+    const undone = undoEntry(history, 2)!;
+    expect(undone.snapshot).toBe(1);
+    expect(undone.history.past.map(e => e.label)).toEqual(['first']);
+    expect(undone.history.future[0]).toMatchObject({ label: 'second', snapshot: 2 });
+
+    const redone = redoEntry(undone.history, 1)!;
+    expect(redone.snapshot).toBe(2);
+    expect(redone.history.past.map(e => e.snapshot)).toEqual([0, 1]);
+    expect(redone.history.future).toEqual([]);
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    expect(undoEntry(createHistory<number>(), 0)).toBeNull();
+    expect(redoEntry(createHistory<number>(), 0)).toBeNull();
+  });
+
+  it('merges a burst with the same key into one entry that keeps the oldest snapshot', () => {
+    let history = createHistory<number>();
+    history = recordEntry(history, 0, 'Nudge', 'offset-1', 0);
+    history = recordEntry(history, 1, 'Nudge', 'offset-1', 500);
+    history = recordEntry(history, 2, 'Nudge', 'offset-1', 1400);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0]).toMatchObject({ snapshot: 0, time: 1400 });
+
+    // One undo reverts the whole burst
+    expect(undoEntry(history, 3)!.snapshot).toBe(0);
+  });
+
+  it('starts a new entry after a pause or for a different key', () => {
+    let history = createHistory<number>();
+    history = recordEntry(history, 0, 'Nudge', 'offset-1', 0);
+    history = recordEntry(history, 1, 'Nudge', 'offset-1', 1000);
+    history = recordEntry(history, 2, 'Nudge', 'offset-2', 1100);
+    history = recordEntry(history, 3, 'Flip', undefined, 1200);
+    history = recordEntry(history, 4, 'Flip', undefined, 1300);
+    expect(history.past.map(e => e.snapshot)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('clears the redo stack on a new record and caps the past', () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) history = recordEntry(history, i, `step ${i}`, undefined, i);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].snapshot).toBe(5);
+
+    const undone = undoEntry(history, -1)!;
+    expect(recordEntry(undone.history, 99, 'new').future).toEqual([]);
+  });
+
+  it('jumps backwards and forwards to a given past length', () => {
+    let history = createHistory<string>();
+    ['a', 'b', 'c'].forEach((state, i) => { history = recordEntry(history, state, state, undefined, i * 2000); });
+
+    const back = jumpToEntry(history, 'd', 1);
+    expect(back.snapshot).toBe('b');
+    expect(back.history.past.map(e => e.snapshot)).toEqual(['a']);
+    expect(back.history.future.map(e => e.snapshot)).toEqual(['c', 'd']);
+
+    const forward = jumpToEntry(back.history, back.snapshot, 3);
+    expect(forward.snapshot).toBe('d');
+    expect(forward.history.past.map(e => e.snapshot)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,78 @@
+// Snapshot based undo / redo. Callers record the state *before* a mutation;
+// undo swaps the current state with the most recent snapshot.
+
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  coalesceKey?: string; // Consecutive records with the same key merge into one entry
+  time: number;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export const createHistory = <T>(): HistoryState<T> => ({ past: [], future: [] });
+
+export const recordEntry = <T>(
+  history: HistoryState<T>,
+  snapshot: T,
+  label: string,
+  coalesceKey?: string,
+  now = Date.now()
+): HistoryState<T> => {
+  const last = history.past[history.past.length - 1];
+  if (coalesceKey && last && last.coalesceKey === coalesceKey && now - last.time < COALESCE_WINDOW_MS) {
+    // Keep the oldest snapshot so one undo reverts the whole burst
+    const past = [...history.past];
+    past[past.length - 1] = { ...last, time: now };
+    return { past, future: [] };
+  }
+  const past = [...history.past, { label, snapshot, coalesceKey, time: now }].slice(-HISTORY_LIMIT);
+  return { past, future: [] };
+};
+
+// Returns the snapshot to restore, or null when there's nothing to undo.
+export const undoEntry = <T>(history: HistoryState<T>, current: T): { history: HistoryState<T>; snapshot: T } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ ...entry, snapshot: current }, ...history.future],
+    },
+  };
+};
+
+export const redoEntry = <T>(history: HistoryState<T>, current: T): { history: HistoryState<T>; snapshot: T } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: [...history.past, { ...entry, snapshot: current }],
+      future: history.future.slice(1),
+    },
+  };
+};
+
+// Undoes or redoes until exactly `pastLength` entries remain in the past.
+export const jumpToEntry = <T>(history: HistoryState<T>, current: T, pastLength: number): { history: HistoryState<T>; snapshot: T } => {
+  let result = { history, snapshot: current };
+  while (result.history.past.length > pastLength) {
+    const step = undoEntry(result.history, result.snapshot);
+    if (!step) break;
+    result = step;
+  }
+  while (result.history.past.length < pastLength) {
+    const step = redoEntry(result.history, result.snapshot);
+    if (!step) break;
+    result = step;
+  }
+  return result;
+};
@@ -0,0 +1,76 @@
+import { FrameConfig } from '../types';
+import { renderFrame } from './frameRender';
+
+// Onion skinning for the preview: neighbouring frames drawn faded and tinted
+// behind the current one, so offsets can be lined up across a sequence.
+
+export interface OnionSkinSettings {
+  enabled: boolean;
+  before: number;     // How many previous frames to show
+  after: number;      // How many following frames to show
+  opacity: number;    // Opacity of the nearest ghost (0..1); further ones fade out
+  tintBefore: string; // "#rrggbb"
+  tintAfter: string;
+  wrap: boolean;      // Look around the ends of a looping sequence
+}
+
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  enabled: false,
+  before: 1,
+  after: 1,
+  opacity: 0.4,
+  tintBefore: '#ef4444',
+  tintAfter: '#22c55e',
+  wrap: true,
+};
+
+// Pivot / baseline crosshair, as fractions of the frame size
+export interface PreviewGuides {
+  enabled: boolean;
+  pivotX: number;
+  baselineY: number;
+}
+
+export const DEFAULT_PREVIEW_GUIDES: PreviewGuides = {
+  enabled: false,
+  pivotX: 0.5,
+  baselineY: 0.9,
+};
+
+export interface OnionLayer {
+  frame: FrameConfig;
+  distance: number; // Negative = before the current frame
+  opacity: number;
+  tint: string;
+}
+
+// Farthest ghosts first so nearer ones draw on top
+export const getOnionLayers = (sequence: FrameConfig[], index: number, settings: OnionSkinSettings): OnionLayer[] => {
+  if (!settings.enabled || sequence.length < 2) return [];
+  const layers: OnionLayer[] = [];
+  const add = (distance: number, depth: number, tint: string) => {
+    let i = index + distance;
+    if (settings.wrap) i = ((i % sequence.length) + sequence.length) % sequence.length;
+    if (i < 0 || i >= sequence.length || i === index) return;
+    const falloff = 1 - (Math.abs(distance) - 1) / Math.max(1, depth);
+    layers.push({ frame: sequence[i], distance, opacity: settings.opacity * falloff, tint });
+  };
+  const depth = Math.max(settings.before, settings.after);
+  for (let d = depth; d >= 1; d--) {
+    if (d <= settings.before) add(-d, settings.before, settings.tintBefore);
+    if (d <= settings.after) add(d, settings.after, settings.tintAfter);
+  }
+  return layers;
+};
+
+// Renders the frame and washes its opaque pixels with `tint`
+export const renderTintedFrame = (source: CanvasImageSource, frame: FrameConfig, tint: string, strength = 0.6): HTMLCanvasElement => {
+  const canvas = renderFrame(source, frame);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.globalCompositeOperation = 'source-atop';
+  ctx.globalAlpha = strength;
+  ctx.fillStyle = tint;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
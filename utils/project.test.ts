@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SlicingMode } from '../types';
+import { DEFAULT_CELL_GRID } from './grid';
+import { DEFAULT_CHROMA_KEY } from './chromaKey';
+import { parseProject, PROJECT_FORMAT, PROJECT_VERSION, ProjectState, serializeProject } from './project';
+
+const frame = { id: 1, row: 0, col: 0, x: 0, y: 0, width: 16, height: 16, offsetX: 0, offsetY: 0, active: true, flipH: false, sequenceOrder: 0 };
+
+const state: ProjectState = {
+  image: 'data:image/png;base64,AAAA',
+  slicingMode: SlicingMode.MANUAL,
+  grid: { rows: 1, cols: 2 },
+  dividers: { v: [0.5], h: [] },
+  cellSpec: { cellWidth: 16, cellHeight: 16, margin: 0, spacing: 0 },
+  frames: [{ ...frame, flipV: true, rotation: 90, scale: 2, duration: 120, pivot: { x: 8, y: 16 }, boxes: [{ name: 'hit', kind: 'hitbox', x: 1, y: 2, width: 3, height: 4 }] }],
+  clips: [{ id: 'c1', name: 'walk', frameIds: [1, 1], fps: 12, loop: false, mirrored: true }],
+  fps: 10,
+  chromaKey: { ...DEFAULT_CHROMA_KEY, enabled: true },
+};
+
+// A JSON copy, like a file read back from disk
+const reload = (value: unknown) => parseProject(JSON.parse(JSON.stringify(value)));
+
+describe('parseProject', () => {
+  it('reads back a saved project unchanged', () => {
+    const saved = serializeProject(state);
+    expect(reload(saved)).toEqual(saved);
+  });
+
+  it('rejects files that are not projects', () => {
+    expect(() => parseProject(null)).toThrow('Not a NanoSprite project');
+    expect(() => parseProject([])).toThrow('Not a NanoSprite project');
+    expect(() => parseProject({ ...serializeProject(state), format: 'other' })).toThrow('Not a NanoSprite project');
+  });
+
+  it('rejects newer and malformed versions with a readable error', () => {
+    expect(() => parseProject({ ...serializeProject(state), version: PROJECT_VERSION + 1 })).toThrow('newer version');
+    expect(() => parseProject({ ...serializeProject(state), version: 0.5 })).toThrow('invalid version');
+    expect(() => parseProject({ ...serializeProject(state), version: -1 })).toThrow('invalid version');
+    expect(() => parseProject({ ...serializeProject(state), version: '1' })).toThrow('invalid version');
+  });
+
+  it('rejects missing frames, grid and dividers', () => {
+    const saved = serializeProject(state);
+    expect(() => parseProject({ ...saved, frames: undefined })).toThrow('missing frame data');
+    expect(() => parseProject({ ...saved, grid: { rows: 0, cols: 2 } })).toThrow('invalid grid');
+    expect(() => parseProject({ ...saved, dividers: { v: [0.5] } })).toThrow('invalid grid dividers');
+    expect(() => parseProject({ ...saved, frames: [{ id: 1, x: 0, y: 0, width: 16 }] })).toThrow('Frame 1');
+  });
+
+  it('migrates an unversioned dump and fills in defaults', () => {
+    const project = parseProject({
+      image: null,
+      grid: { rows: 1, cols: 1 },
+      dividers: { v: [], h: [] },
+      frames: [{ id: 3, x: 0, y: 0, width: 8, height: 8 }],
+    });
+    expect(project.format).toBe(PROJECT_FORMAT);
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.slicingMode).toBe(SlicingMode.GRID);
+    expect(project.cellSpec).toEqual(DEFAULT_CELL_GRID);
+    expect(project.chromaKey).toEqual(DEFAULT_CHROMA_KEY);
+    expect(project.clips).toEqual([]);
+    expect(project.fps).toBe(8);
+    expect(project.frames[0]).toEqual({
+      id: 3, row: 0, col: 0, x: 0, y: 0, width: 8, height: 8, offsetX: 0, offsetY: 0,
+      active: true, flipH: false, flipV: false, rotation: 0, scale: 1, sequenceOrder: 0,
+    });
+  });
+
+  it('drops out-of-range frame and clip fields instead of loading them', () => {
+    const saved = serializeProject(state);
+    const project = reload({
+      ...saved,
+      frames: [{ ...frame, rotation: 45, scale: -3, duration: 0, pivot: { x: 'a', y: 1 }, boxes: {} }, { ...frame, id: 2, flipV: 'yes', boxes: [{ kind: 'hitbox', x: 0, y: 0, width: 0, height: 4 }, { kind: 'other', x: 0, y: 0, width: 4, height: 4 }] }],
+      clips: [{ id: 'c1', name: 'walk', frameIds: [1, 'x', 2], fps: 'fast', mirrored: 'no' }, { name: 'no id' }],
+    });
+    const [first, second] = project.frames;
+    expect(first).toMatchObject({ rotation: 0, scale: 1 });
+    expect(first).not.toHaveProperty('duration');
+    expect(first).not.toHaveProperty('pivot');
+    expect(first).not.toHaveProperty('boxes');
+    expect(second.flipV).toBe(false);
+    expect(second.boxes).toEqual([]);
+    expect(project.clips).toEqual([{ id: 'c1', name: 'walk', frameIds: [1, 2], fps: saved.fps, loop: true, mirrored: false }]);
+  });
+});
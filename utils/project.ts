@@ -0,0 +1,192 @@
+import { AnimationClip, Dividers, FrameBox, FrameConfig, FramePoint, FrameRotation, GridDimensions, SlicingMode } from '../types';
+import { CellGridSpec, DEFAULT_CELL_GRID } from './grid';
+import { ChromaKeySettings, DEFAULT_CHROMA_KEY } from './chromaKey';
+
+// .nanosprite project files: plain JSON with the source image embedded as a data URL.
+
+export const PROJECT_FORMAT = 'nanosprite';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.nanosprite';
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  image: string | null; // Raw source, before background removal
+  slicingMode: SlicingMode;
+  grid: GridDimensions;
+  dividers: Dividers;
+  cellSpec: CellGridSpec;
+  frames: FrameConfig[];
+  clips: AnimationClip[];
+  fps: number;
+  chromaKey: ChromaKeySettings;
+}
+
+export type ProjectState = Omit<ProjectFile, 'format' | 'version' | 'savedAt'>;
+
+export const serializeProject = (state: ProjectState): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state,
+});
+
+type RawProject = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawProject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const numberOr = (value: unknown, fallback: number) => isNumber(value) ? value : fallback;
+
+const booleanOr = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+const numberList = (value: unknown) => Array.isArray(value) ? value.filter(isNumber) : null;
+
+const ROTATIONS: FrameRotation[] = [0, 90, 180, 270];
+
+const pointOr = (value: unknown): FramePoint | undefined =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) ? { x: value.x, y: value.y } : undefined;
+
+// Boxes with a bad kind or rectangle are dropped
+const boxList = (value: unknown): FrameBox[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((box): box is RawProject =>
+      isRecord(box) && (box.kind === 'hitbox' || box.kind === 'hurtbox') &&
+      [box.x, box.y, box.width, box.height].every(isNumber) &&
+      (box.width as number) > 0 && (box.height as number) > 0)
+    .map((box, i) => ({
+      name: typeof box.name === 'string' ? box.name : `${box.kind}${i + 1}`,
+      kind: box.kind as FrameBox['kind'],
+      x: box.x as number,
+      y: box.y as number,
+      width: box.width as number,
+      height: box.height as number,
+    }));
+};
+
+// Each step upgrades a project from version N to N + 1.
+// Version 0 is an unversioned dump of the editor state (image, grid, dividers, frames, fps);
+// the fields it lacks are filled in with defaults by normalizeProject.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  0: (project) => ({
+    ...project,
+    format: PROJECT_FORMAT,
+    version: 1,
+  }),
+};
+
+// Optional fields that are out of range are left unset, so they take their defaults
+const normalizeFrame = (value: unknown, index: number): FrameConfig => {
+  if (!isRecord(value) || ![value.id, value.x, value.y, value.width, value.height].every(isNumber)) {
+    throw new Error(`Frame ${index + 1} is missing its id or rectangle`);
+  }
+  const frame: FrameConfig = {
+    id: value.id as number,
+    row: numberOr(value.row, 0),
+    col: numberOr(value.col, 0),
+    x: value.x as number,
+    y: value.y as number,
+    width: value.width as number,
+    height: value.height as number,
+    offsetX: numberOr(value.offsetX, 0),
+    offsetY: numberOr(value.offsetY, 0),
+    active: booleanOr(value.active, true),
+    flipH: booleanOr(value.flipH, false),
+    flipV: booleanOr(value.flipV, false),
+    rotation: ROTATIONS.includes(value.rotation as FrameRotation) ? value.rotation as FrameRotation : 0,
+    scale: Number.isInteger(value.scale) && (value.scale as number) > 0 ? value.scale as number : 1,
+    sequenceOrder: numberOr(value.sequenceOrder, index),
+  };
+  if (isNumber(value.duration) && value.duration > 0) frame.duration = value.duration;
+  const pivot = pointOr(value.pivot);
+  if (pivot) frame.pivot = pivot;
+  const boxes = boxList(value.boxes);
+  if (boxes) frame.boxes = boxes;
+  return frame;
+};
+
+// Clips without an id are dropped; other fields fall back to defaults
+const normalizeClips = (value: unknown, fps: number): AnimationClip[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((clip): clip is RawProject => isRecord(clip) && typeof clip.id === 'string')
+    .map(clip => ({
+      id: clip.id as string,
+      name: typeof clip.name === 'string' ? clip.name : 'clip',
+      frameIds: numberList(clip.frameIds) ?? [],
+      fps: numberOr(clip.fps, fps),
+      loop: booleanOr(clip.loop, true),
+      mirrored: booleanOr(clip.mirrored, false),
+    }));
+
+// Checks the structural fields and fills in defaults for the rest, so a hand-edited or
+// partially written file can't put malformed state into the editor.
+const normalizeProject = (project: RawProject): ProjectFile => {
+  if (!Array.isArray(project.frames)) throw new Error('Project file is missing frame data');
+  const grid = project.grid;
+  if (!isRecord(grid) || !isNumber(grid.rows) || !isNumber(grid.cols) || grid.rows < 1 || grid.cols < 1) {
+    throw new Error('Project file has an invalid grid');
+  }
+  const dividers = project.dividers;
+  const v = isRecord(dividers) ? numberList(dividers.v) : null;
+  const h = isRecord(dividers) ? numberList(dividers.h) : null;
+  if (!v || !h) throw new Error('Project file has invalid grid dividers');
+
+  const cellSpec = isRecord(project.cellSpec) ? project.cellSpec : {};
+  const chromaKey = isRecord(project.chromaKey) ? project.chromaKey : {};
+  const fps = numberOr(project.fps, 8);
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : new Date().toISOString(),
+    image: typeof project.image === 'string' ? project.image : null,
+    slicingMode: Object.values(SlicingMode).includes(project.slicingMode as SlicingMode)
+      ? project.slicingMode as SlicingMode
+      : SlicingMode.GRID,
+    grid: { rows: grid.rows, cols: grid.cols },
+    dividers: { v, h },
+    cellSpec: {
+      cellWidth: numberOr(cellSpec.cellWidth, DEFAULT_CELL_GRID.cellWidth),
+      cellHeight: numberOr(cellSpec.cellHeight, DEFAULT_CELL_GRID.cellHeight),
+      margin: numberOr(cellSpec.margin, DEFAULT_CELL_GRID.margin),
+      spacing: numberOr(cellSpec.spacing, DEFAULT_CELL_GRID.spacing),
+    },
+    frames: project.frames.map(normalizeFrame),
+    clips: normalizeClips(project.clips, fps),
+    fps,
+    chromaKey: {
+      enabled: booleanOr(chromaKey.enabled, DEFAULT_CHROMA_KEY.enabled),
+      colors: Array.isArray(chromaKey.colors)
+        ? chromaKey.colors.filter((c): c is string => typeof c === 'string')
+        : DEFAULT_CHROMA_KEY.colors,
+      tolerance: numberOr(chromaKey.tolerance, DEFAULT_CHROMA_KEY.tolerance),
+      feather: numberOr(chromaKey.feather, DEFAULT_CHROMA_KEY.feather),
+      despill: booleanOr(chromaKey.despill, DEFAULT_CHROMA_KEY.despill),
+    },
+  };
+};
+
+export const parseProject = (input: unknown): ProjectFile => {
+  if (!isRecord(input)) throw new Error('Not a NanoSprite project');
+  let project: RawProject = { ...input };
+  if (project.format !== undefined && project.format !== PROJECT_FORMAT) throw new Error('Not a NanoSprite project');
+
+  const savedVersion = project.version ?? 0;
+  if (!isNumber(savedVersion) || !Number.isInteger(savedVersion) || savedVersion < 0) {
+    throw new Error(`Project has an invalid version (${JSON.stringify(savedVersion)})`);
+  }
+  let version = savedVersion;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (v${version}); this app reads up to v${PROJECT_VERSION}`);
+  }
+  while (version < PROJECT_VERSION) {
+    project = MIGRATIONS[version](project);
+    version = numberOr(project.version, version + 1);
+  }
+
+  return normalizeProject(project);
+};
@@ -0,0 +1,71 @@
+import { ProjectFile } from './project';
+import { GenerationRecord } from '../types';
+
+// IndexedDB persistence for the autosaved session, so a crashed or closed tab
+// can be restored on the next launch, and for the gallery of generated sheets.
+
+const DB_NAME = 'nanosprite';
+const DB_VERSION = 2;
+const AUTOSAVE_STORE = 'autosave';
+const AUTOSAVE_KEY = 'current';
+const GENERATIONS_STORE = 'generations'; // Added in version 2
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) db.createObjectStore(AUTOSAVE_STORE);
+      if (!db.objectStoreNames.contains(GENERATIONS_STORE)) db.createObjectStore(GENERATIONS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = async (project: ProjectFile): Promise<void> => {
+  await run(AUTOSAVE_STORE, 'readwrite', store => store.put(project, AUTOSAVE_KEY));
+};
+
+export const loadAutosave = async (): Promise<ProjectFile | null> => {
+  const project = await run<ProjectFile | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(AUTOSAVE_KEY));
+  return project ?? null;
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  await run(AUTOSAVE_STORE, 'readwrite', store => store.delete(AUTOSAVE_KEY));
+};
+
+// --- Generation gallery ---
+
+export const saveGeneration = async (record: GenerationRecord): Promise<void> => {
+  await run(GENERATIONS_STORE, 'readwrite', store => store.put(record));
+};
+
+// Newest first. Records written before images were stored as Blobs are skipped.
+export const loadGenerations = async (): Promise<GenerationRecord[]> => {
+  const records = await run<GenerationRecord[]>(GENERATIONS_STORE, 'readonly', store => store.getAll());
+  return records
+    .filter(record => record.image instanceof Blob && typeof record.thumbnail === 'string')
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteGeneration = async (id: string): Promise<void> => {
+  await run(GENERATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearGenerations = async (): Promise<void> => {
+  await run(GENERATIONS_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,94 @@
+// Geometry helpers for free-form frame rectangles (move / resize handles).
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+};
+
+export const getHandlePoints = (rect: Rect): { handle: ResizeHandle; x: number; y: number }[] => {
+  const { x, y, width, height } = rect;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return [
+    { handle: 'nw', x, y },
+    { handle: 'n', x: cx, y },
+    { handle: 'ne', x: x + width, y },
+    { handle: 'e', x: x + width, y: cy },
+    { handle: 'se', x: x + width, y: y + height },
+    { handle: 's', x: cx, y: y + height },
+    { handle: 'sw', x, y: y + height },
+    { handle: 'w', x, y: cy },
+  ];
+};
+
+export const hitTestHandle = (rect: Rect, px: number, py: number, tolerance: number): ResizeHandle | null => {
+  const hit = getHandlePoints(rect).find(p => Math.abs(p.x - px) <= tolerance && Math.abs(p.y - py) <= tolerance);
+  return hit ? hit.handle : null;
+};
+
+export const containsPoint = (rect: Rect, px: number, py: number) =>
+  px >= rect.x && px < rect.x + rect.width && py >= rect.y && py < rect.y + rect.height;
+
+// Returns the rect translated by (dx, dy), kept fully inside the bounds.
+export const moveRect = (rect: Rect, dx: number, dy: number, bounds: { width: number; height: number }): Rect => ({
+  ...rect,
+  x: Math.round(Math.max(0, Math.min(bounds.width - rect.width, rect.x + dx))),
+  y: Math.round(Math.max(0, Math.min(bounds.height - rect.height, rect.y + dy))),
+});
+
+// Returns the rect with the edges named by `handle` dragged by (dx, dy).
+// Edges can't cross each other and never leave the bounds.
+export const resizeRect = (
+  rect: Rect,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  bounds: { width: number; height: number },
+  minSize = 1
+): Rect => {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+
+  if (handle.includes('w')) left = Math.max(0, Math.min(right - minSize, left + dx));
+  if (handle.includes('e')) right = Math.min(bounds.width, Math.max(left + minSize, right + dx));
+  if (handle.includes('n')) top = Math.max(0, Math.min(bottom - minSize, top + dy));
+  if (handle.includes('s')) bottom = Math.min(bounds.height, Math.max(top + minSize, bottom + dy));
+
+  left = Math.round(left);
+  top = Math.round(top);
+  return { ...rect, x: left, y: top, width: Math.round(right) - left, height: Math.round(bottom) - top };
+};
+
+export const clampRect = (rect: Rect, bounds: { width: number; height: number }): Rect => {
+  const x = Math.round(Math.max(0, Math.min(bounds.width, rect.x)));
+  const y = Math.round(Math.max(0, Math.min(bounds.height, rect.y)));
+  const right = Math.round(Math.max(0, Math.min(bounds.width, rect.x + rect.width)));
+  const bottom = Math.round(Math.max(0, Math.min(bounds.height, rect.y + rect.height)));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+// Intersection over union: 1 for identical rects, 0 when they don't touch
+export const overlapRatio = (a: Rect, b: Rect) => {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const shared = w * h;
+  return shared / (a.width * a.height + b.width * b.height - shared);
+};
@@ -0,0 +1,58 @@
+import { Rect } from './rect';
+
+// Pixel edits to the source sheet itself, used to put a regenerated frame back in place.
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not load image'));
+  img.src = src;
+});
+
+export const cropToDataUrl = (source: CanvasImageSource, rect: Rect) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Replaces `rect` of the sheet with `patch`, stretched to fit. Pixel art is scaled
+// without smoothing so it stays crisp.
+export const patchSheet = (sheet: HTMLImageElement, patch: CanvasImageSource, rect: Rect, smooth: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = sheet.width;
+  canvas.height = sheet.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(sheet, 0, 0);
+  ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.imageSmoothingEnabled = smooth;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(patch, rect.x, rect.y, rect.width, rect.height);
+  return canvas.toDataURL('image/png');
+};
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Downscaled copy that fits in size × size
+export const createThumbnail = async (src: string, size = 128) => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, size / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,127 @@
+// Keyboard shortcuts. Bindings are strings like "Shift+ArrowLeft" or "Mod+Z",
+// where Mod is Ctrl on Windows / Linux and Cmd on macOS.
+
+import { readStoredObject, writeStoredObject } from './storage';
+
+export type ShortcutAction =
+  | 'nudgeLeft' | 'nudgeRight' | 'nudgeUp' | 'nudgeDown'
+  | 'nudgeLeftFar' | 'nudgeRightFar' | 'nudgeUpFar' | 'nudgeDownFar'
+  | 'selectAll' | 'deselect' | 'playPause' | 'flip' | 'flipVertical' | 'rotate' | 'toggleActive'
+  | 'prevFrame' | 'nextFrame' | 'undo' | 'redo' | 'showHelp';
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string; group: string }[] = [
+  { action: 'nudgeLeft', label: 'Nudge offset left 1px', group: 'Offset' },
+  { action: 'nudgeRight', label: 'Nudge offset right 1px', group: 'Offset' },
+  { action: 'nudgeUp', label: 'Nudge offset up 1px', group: 'Offset' },
+  { action: 'nudgeDown', label: 'Nudge offset down 1px', group: 'Offset' },
+  { action: 'nudgeLeftFar', label: 'Nudge offset left 10px', group: 'Offset' },
+  { action: 'nudgeRightFar', label: 'Nudge offset right 10px', group: 'Offset' },
+  { action: 'nudgeUpFar', label: 'Nudge offset up 10px', group: 'Offset' },
+  { action: 'nudgeDownFar', label: 'Nudge offset down 10px', group: 'Offset' },
+  { action: 'selectAll', label: 'Select all frames', group: 'Frames' },
+  { action: 'deselect', label: 'Clear selection / tool', group: 'Frames' },
+  { action: 'flip', label: 'Flip selected frames', group: 'Frames' },
+  { action: 'flipVertical', label: 'Flip selected frames vertically', group: 'Frames' },
+  { action: 'rotate', label: 'Rotate selected frames 90° clockwise', group: 'Frames' },
+  { action: 'toggleActive', label: 'Skip / restore selected (delete in Manual mode)', group: 'Frames' },
+  { action: 'playPause', label: 'Play / pause preview', group: 'Playback' },
+  { action: 'prevFrame', label: 'Previous frame', group: 'Playback' },
+  { action: 'nextFrame', label: 'Next frame', group: 'Playback' },
+  { action: 'undo', label: 'Undo', group: 'Edit' },
+  { action: 'redo', label: 'Redo', group: 'Edit' },
+  { action: 'showHelp', label: 'Show shortcuts', group: 'Edit' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  nudgeLeft: ['ArrowLeft'],
+  nudgeRight: ['ArrowRight'],
+  nudgeUp: ['ArrowUp'],
+  nudgeDown: ['ArrowDown'],
+  nudgeLeftFar: ['Shift+ArrowLeft'],
+  nudgeRightFar: ['Shift+ArrowRight'],
+  nudgeUpFar: ['Shift+ArrowUp'],
+  nudgeDownFar: ['Shift+ArrowDown'],
+  selectAll: ['A', 'Mod+A'],
+  deselect: ['Escape'],
+  flip: ['F'],
+  flipVertical: ['Shift+F'],
+  rotate: ['R'],
+  toggleActive: ['Delete', 'Backspace'],
+  playPause: ['Space'],
+  prevFrame: [','],
+  nextFrame: ['.'],
+  undo: ['Mod+Z'],
+  redo: ['Mod+Shift+Z', 'Mod+Y'],
+  showHelp: ['?'],
+};
+
+// Actions that edit the selected frames. Without a selection their keys keep their
+// normal meaning (arrow keys scroll, Backspace edits text...).
+export const SELECTION_ACTIONS: ShortcutAction[] = [
+  'nudgeLeft', 'nudgeRight', 'nudgeUp', 'nudgeDown',
+  'nudgeLeftFar', 'nudgeRightFar', 'nudgeUpFar', 'nudgeDownFar',
+  'flip', 'flipVertical', 'rotate', 'toggleActive',
+];
+
+const STORAGE_KEY = 'nanosprite.shortcuts';
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta']);
+
+// Normalizes a key event to the binding format, or null for a bare modifier press
+export const eventToBinding = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  let key = e.key === ' ' ? 'Space' : e.key;
+  const printable = key.length === 1;
+  if (printable) key = key.toUpperCase();
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  // Shift is already part of printable symbols ("?" rather than "Shift+/"), but not of letters
+  if (e.shiftKey && (!printable || /^[A-Z]$/.test(key))) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+export const findShortcut = (bindings: ShortcutBindings, binding: string): ShortcutAction | null => {
+  const match = (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action].includes(binding));
+  return match ?? null;
+};
+
+// Human friendly label, e.g. "Mod+Shift+Z" -> "Ctrl+Shift+Z" (or "⌘⇧Z" on macOS)
+export const formatBinding = (binding: string) => {
+  const mac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  return binding
+    .split('+')
+    .map(part => {
+      if (part === 'Mod') return mac ? '⌘' : 'Ctrl';
+      if (part === 'Shift' && mac) return '⇧';
+      if (part === 'Alt' && mac) return '⌥';
+      return arrows[part] ?? part;
+    })
+    .join(mac ? '' : '+');
+};
+
+export const loadShortcuts = (): ShortcutBindings => {
+  const stored = readStoredObject(STORAGE_KEY);
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).forEach(action => {
+    const value = stored[action];
+    if (Array.isArray(value)) bindings[action] = value.filter((b): b is string => typeof b === 'string');
+  });
+  return bindings;
+};
+
+export const saveShortcuts = (bindings: ShortcutBindings) => writeStoredObject(STORAGE_KEY, bindings);
+
+// Assigns `binding` to `action` alone, removing it from any other action that used it
+export const rebindShortcut = (bindings: ShortcutBindings, action: ShortcutAction, binding: string): ShortcutBindings => {
+  const next = { ...bindings };
+  (Object.keys(next) as ShortcutAction[]).forEach(other => {
+    next[other] = next[other].filter(b => b !== binding);
+  });
+  next[action] = [binding];
+  return next;
+};
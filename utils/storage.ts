@@ -0,0 +1,26 @@
+// Small JSON wrappers around localStorage for user preferences.
+// Storage can be unavailable (private mode) or hold something unreadable; reads then
+// come back empty and writes are dropped, so preferences last for the session only.
+
+export type StoredObject = Record<string, unknown>;
+
+export const isStoredObject = (value: unknown): value is StoredObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The stored object, or {} when there is none
+export const readStoredObject = (key: string): StoredObject => {
+  try {
+    const value: unknown = JSON.parse(localStorage.getItem(key) || '{}');
+    return isStoredObject(value) ? value : {};
+  } catch {
+    return {};
+  }
+};
+
+export const writeStoredObject = (key: string, value: object) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Dropped; see the note at the top
+  }
+};
@@ -0,0 +1,60 @@
+// Zoom / pan state for the editor canvas. The view maps image pixels to screen
+// pixels as screen = image * zoom + pan.
+
+export interface ViewState {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 64;
+export const PIXEL_GRID_MIN_ZOOM = 8; // Below this the grid would be denser than the pixels are readable
+
+// Stops used by the zoom buttons
+const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64];
+
+export const DEFAULT_VIEW: ViewState = { zoom: 1, panX: 0, panY: 0 };
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const screenToImage = (view: ViewState, sx: number, sy: number) => ({
+  x: (sx - view.panX) / view.zoom,
+  y: (sy - view.panY) / view.zoom,
+});
+
+// Zooms while keeping the image point under (sx, sy) fixed on screen
+export const zoomAt = (view: ViewState, zoom: number, sx: number, sy: number): ViewState => {
+  const next = clampZoom(zoom);
+  const ratio = next / view.zoom;
+  return {
+    zoom: next,
+    panX: sx - (sx - view.panX) * ratio,
+    panY: sy - (sy - view.panY) * ratio,
+  };
+};
+
+export const nextZoomStep = (zoom: number, direction: 1 | -1) => {
+  if (direction > 0) return ZOOM_STEPS.find(step => step > zoom * 1.001) ?? MAX_ZOOM;
+  return [...ZOOM_STEPS].reverse().find(step => step < zoom / 1.001) ?? MIN_ZOOM;
+};
+
+// Largest zoom that shows the whole image with `padding` screen pixels around it, centered
+export const fitView = (imageWidth: number, imageHeight: number, viewWidth: number, viewHeight: number, padding = 32): ViewState => {
+  const zoom = clampZoom(Math.min(
+    (viewWidth - padding * 2) / Math.max(1, imageWidth),
+    (viewHeight - padding * 2) / Math.max(1, imageHeight)
+  ));
+  return {
+    zoom,
+    panX: Math.round((viewWidth - imageWidth * zoom) / 2),
+    panY: Math.round((viewHeight - imageHeight * zoom) / 2),
+  };
+};
+
+// Same zoom, image centered in the view
+export const centerView = (zoom: number, imageWidth: number, imageHeight: number, viewWidth: number, viewHeight: number): ViewState => ({
+  zoom,
+  panX: Math.round((viewWidth - imageWidth * zoom) / 2),
+  panY: Math.round((viewHeight - imageHeight * zoom) / 2),
+});
@@ -0,0 +1,93 @@
+import { AnimationFrameInput } from './apng';
+import { canvasToBlob } from './frameRender';
+
+// Animated WebP: every frame is encoded by the browser's own WebP encoder
+// (canvas.toBlob), then the still images are re-wrapped into an ANIM/ANMF container.
+
+const encoder = new TextEncoder();
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  out.set(encoder.encode(fourcc), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+// Pulls the image bitstream chunks (ALPH + VP8, or VP8L) out of a still WebP file
+const extractImageChunks = (file: Uint8Array): Uint8Array => {
+  const decoder = new TextDecoder();
+  if (decoder.decode(file.subarray(0, 4)) !== 'RIFF' || decoder.decode(file.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('This browser cannot encode WebP images');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const fourcc = decoder.decode(file.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (fourcc === 'ALPH' || fourcc === 'VP8 ' || fourcc === 'VP8L') {
+      chunks.push(file.subarray(offset, Math.min(end, file.length)));
+    }
+    offset = end;
+  }
+  if (chunks.length === 0) throw new Error('WebP frame has no image data');
+  return concat(chunks);
+};
+
+export const encodeAnimatedWebp = async (
+  frames: AnimationFrameInput[],
+  options: { loop: boolean; quality?: number }
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const width = Math.max(...frames.map(f => f.canvas.width));
+  const height = Math.max(...frames.map(f => f.canvas.height));
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // Alpha + Animation flags
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6);
+  // Background color stays transparent black; loop count 0 = forever
+  new DataView(anim.buffer).setUint16(4, options.loop ? 0 : 1, true);
+
+  const parts: Uint8Array[] = [riffChunk('VP8X', vp8x), riffChunk('ANIM', anim)];
+
+  for (const frame of frames) {
+    // Quality 1 makes Chromium use its lossless encoder
+    const blob = await canvasToBlob(frame.canvas, 'image/webp', options.quality ?? 1);
+    if (blob.type !== 'image/webp') throw new Error('This browser cannot encode WebP images');
+    const image = extractImageChunks(new Uint8Array(await blob.arrayBuffer()));
+
+    const header = new Uint8Array(16);
+    writeUint24(header, 0, 0); // x / 2
+    writeUint24(header, 3, 0); // y / 2
+    writeUint24(header, 6, frame.canvas.width - 1);
+    writeUint24(header, 9, frame.canvas.height - 1);
+    writeUint24(header, 12, Math.min(0xffffff, Math.round(frame.delay)));
+    header[15] = 0x02 | 0x01; // No blending, dispose to background
+    parts.push(riffChunk('ANMF', concat([header, image])));
+  }
+
+  const body = concat([encoder.encode('WEBP'), ...parts]);
+  return new Blob([riffChunk('RIFF', body)], { type: 'image/webp' });
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+import { applyNamePattern, buildZip, uniqueFileName } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+describe('buildZip', () => {
+  const files = [
+    { name: 'walk_000.png', data: new Uint8Array([1, 2, 3, 4, 5]) },
+    { name: 'é.json', data: encoder.encode('{"ok":true}') },
+  ];
+  const modified = new Date(2024, 4, 17, 13, 45, 30);
+
+  it('writes a stored local header followed by the name and data for each file', async () => {
+    const { bytes, view } = await readZip(buildZip(files, modified));
+    let offset = 0;
+    files.forEach(file => {
+      const name = encoder.encode(file.name);
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint16(offset + 6, true)).toBe(0x0800); // UTF-8 names
+      expect(view.getUint16(offset + 8, true)).toBe(0);      // Stored
+      expect(view.getUint16(offset + 10, true)).toBe((13 << 11) | (45 << 5) | 15);
+      expect(view.getUint16(offset + 12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(file.data));
+      expect(view.getUint32(offset + 18, true)).toBe(file.data.length);
+      expect(view.getUint32(offset + 22, true)).toBe(file.data.length);
+      expect(view.getUint16(offset + 26, true)).toBe(name.length);
+      expect(decoder.decode(bytes.subarray(offset + 30, offset + 30 + name.length))).toBe(file.name);
+      expect(Array.from(bytes.subarray(offset + 30 + name.length, offset + 30 + name.length + file.data.length))).toEqual(Array.from(file.data));
+      offset += 30 + name.length + file.data.length;
+    });
+  });
+
+  it('ends with a central directory that points back at every local header', async () => {
+    const { bytes, view } = await readZip(buildZip(files, modified));
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(files.length);
+    expect(view.getUint16(end + 10, true)).toBe(files.length);
+
+    let entry = view.getUint32(end + 16, true);
+    expect(entry + view.getUint32(end + 12, true)).toBe(end);
+    files.forEach(file => {
+      const nameLength = view.getUint16(entry + 28, true);
+      expect(view.getUint32(entry, true)).toBe(0x02014b50);
+      expect(view.getUint32(entry + 16, true)).toBe(crc32(file.data));
+      expect(view.getUint32(entry + 24, true)).toBe(file.data.length);
+      expect(decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength))).toBe(file.name);
+
+      const local = view.getUint32(entry + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(crc32(file.data));
+      entry += 46 + nameLength;
+    });
+  });
+
+  it('writes only the end record for an empty archive', async () => {
+    const { bytes, view } = await readZip(buildZip([], modified));
+    expect(bytes.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('uniqueFileName', () => {
+  it('replaces unsafe characters and numbers repeats', () => {
+    const taken = new Set<string>();
+    expect(uniqueFileName('a/b.png', taken)).toBe('a_b.png');
+    expect(uniqueFileName('a/b.png', taken)).toBe('a_b_2.png');
+    expect(uniqueFileName('a:b.png', taken)).toBe('a_b_3.png');
+  });
+});
+
+describe('applyNamePattern', () => {
+  it('pads the index and leaves unknown tokens alone', () => {
+    expect(applyNamePattern('{clip}_{index}_{other}', { clip: 'walk', index: 7 })).toBe('walk_007_{other}');
+  });
+});
@@ -0,0 +1,96 @@
+import { crc32 } from './crc32';
+
+// Minimal in-browser ZIP writer. Entries are stored uncompressed: the payload is
+// PNG data, which is already deflated, so compressing again gains next to nothing.
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const buildZip = (files: ZipFile[], modified = new Date()): Blob => {
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true);         // Version needed to extract
+    local.setUint16(6, 0x0800, true);     // Flags: UTF-8 file names
+    local.setUint16(8, 0, true);          // Method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);         // Extra field length
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true); // Central directory signature
+    entry.setUint16(4, 20, true);         // Version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint16(30, 0, true);         // Extra field length
+    entry.setUint16(32, 0, true);         // Comment length
+    entry.setUint16(34, 0, true);         // Disk number
+    entry.setUint16(36, 0, true);         // Internal attributes
+    entry.setUint32(38, 0, true);         // External attributes
+    entry.setUint32(42, offset, true);    // Offset of local header
+
+    parts.push(new Uint8Array(local.buffer), name, file.data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);     // End of central directory signature
+  end.setUint16(8, files.length, true);   // Entries on this disk
+  end.setUint16(10, files.length, true);  // Entries total
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);        // Central directory offset
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+// Makes a name safe for archive entries and unique within `taken`.
+export const uniqueFileName = (name: string, taken: Set<string>) => {
+  const safe = name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'file';
+  const dot = safe.lastIndexOf('.');
+  const stem = dot > 0 ? safe.slice(0, dot) : safe;
+  const ext = dot > 0 ? safe.slice(dot) : '';
+  let candidate = safe;
+  let n = 2;
+  while (taken.has(candidate)) candidate = `${stem}_${n++}${ext}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+// Fills a pattern like "{clip}_{index}" with the given tokens. Numeric `index`
+// is zero padded to three digits so files sort in playback order.
+export const applyNamePattern = (pattern: string, tokens: Record<string, string | number>) =>
+  pattern.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in tokens)) return match;
+    const value = tokens[key];
+    return key === 'index' && typeof value === 'number' ? String(value).padStart(3, '0') : String(value);
+  });